@@ -3,6 +3,7 @@
 const fs = require('fs');
 const path = require('path');
 const os = require('os');
+const crypto = require('crypto');
 
 // Color output helpers
 const colors = {
@@ -22,8 +23,66 @@ const homeDir = os.homedir();
 const claudeDir = path.join(homeDir, '.claude');
 const hooksDir = path.join(claudeDir, 'hooks');
 const settingsPath = path.join(claudeDir, 'settings.json');
+const promptsDir = path.join(claudeDir, 'prompts');
+// What the last install wrote, so upgrades and uninstall know what is ours
+const manifestPath = path.join(claudeDir, 'memoria-install.json');
 const sourceDir = path.join(__dirname, 'src');
 
+// Placeholders in src/settings.json and the hook scripts they stand for
+const HOOK_SCRIPTS = {
+  'HOOK_COMMAND_SESSION_START': 'session_start.js',
+  'HOOK_COMMAND_USER_PROMPT_INJECT': 'user_prompt_inject.js',
+  'HOOK_COMMAND_SESSION_END': 'session_end.js',
+  'HOOK_COMMAND_PRECOMPACT': 'precompact.js'
+};
+
+// sha256 of every earlier shipped version of each prompt template. Installs
+// from before memoria-install.json have no record of what they wrote, so a
+// template matching one of these is unmodified and safe to replace. Add the
+// old hash here whenever a template changes.
+const SHIPPED_PROMPT_HASHES = {
+  'reflection.txt': [
+    'ef7999d5cb46124c8ace24d1bae5d8a8f2b623abd9aa11c6f60ee37b9d5683ea',
+    '6ac8bb5c063d8dd7b30a789e26ec67985730c3eace87d4059158b90e8e3e81aa',
+    '90fedb78c42d2c9695c45bd2361484b471720ab69769841a8fab4ea4f666626d',
+    'accfb96ee4cfb586f7f83eb9f78705b0271a55eb0f9cc8f2b2372a5f545cfee3',
+  ],
+  'playbook.txt': [],
+};
+
+function isShippedPrompt(name, hash) {
+  return (SHIPPED_PROMPT_HASHES[name] || []).includes(hash);
+}
+
+function hookCommand(scriptName) {
+  return `node "${path.join(hooksDir, scriptName)}"`;
+}
+
+function fileHash(filePath) {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+function loadManifest() {
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+  } catch (e) {
+    return null;
+  }
+}
+
+function saveManifest(manifest) {
+  ensureDir(path.dirname(manifestPath));
+  fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf-8');
+}
+
+function packageVersion() {
+  try {
+    return require('./package.json').version;
+  } catch (e) {
+    return 'unknown';
+  }
+}
+
 // Ensure directory exists
 function ensureDir(dir) {
   if (!fs.existsSync(dir)) {
@@ -49,33 +108,30 @@ function copyDir(src, dest) {
   }
 }
 
-// Merge settings.json
-function mergeSettings(srcSettingsPath) {
+// Load src/settings.json with the hook command placeholders filled in
+function loadSourceSettings(srcSettingsPath) {
+  if (!fs.existsSync(srcSettingsPath)) {
+    return {};
+  }
+  let content = fs.readFileSync(srcSettingsPath, 'utf-8');
+  for (const [placeholder, scriptName] of Object.entries(HOOK_SCRIPTS)) {
+    content = content.replace(
+      new RegExp(`\\{\\{${placeholder}\\}\\}`, 'g'),
+      JSON.stringify(hookCommand(scriptName)).slice(1, -1)
+    );
+  }
+  return JSON.parse(content);
+}
+
+// Merge settings.json. Top-level keys that did not exist yet are pushed to
+// `addedKeys`, so uninstall only removes what the installer added.
+function mergeSettings(srcSettingsPath, addedKeys = []) {
   // Load source settings with placeholder replacement
   let srcSettings = {};
-  if (fs.existsSync(srcSettingsPath)) {
-    try {
-      let content = fs.readFileSync(srcSettingsPath, 'utf-8');
-      
-      // Replace placeholders with actual hook commands
-      const hooks = {
-        'HOOK_COMMAND_USER_PROMPT_INJECT': 'user_prompt_inject.js',
-        'HOOK_COMMAND_SESSION_END': 'session_end.js',
-        'HOOK_COMMAND_PRECOMPACT': 'precompact.js'
-      };
-      
-      for (const [placeholder, scriptName] of Object.entries(hooks)) {
-        const command = `node "${path.join(hooksDir, scriptName)}"`;
-        content = content.replace(
-          new RegExp(`\\{\\{${placeholder}\\}\\}`, 'g'),
-          JSON.stringify(command).slice(1, -1)
-        );
-      }
-      
-      srcSettings = JSON.parse(content);
-    } catch (e) {
-      log(`⚠ Failed to parse source settings: ${e.message}`, 'yellow');
-    }
+  try {
+    srcSettings = loadSourceSettings(srcSettingsPath);
+  } catch (e) {
+    log(`⚠ Failed to parse source settings: ${e.message}`, 'yellow');
   }
 
   // Load destination settings
@@ -143,6 +199,7 @@ function mergeSettings(srcSettingsPath) {
   for (const [key, value] of Object.entries(srcSettings)) {
     if (key !== 'hooks' && !(key in destSettings)) {
       destSettings[key] = value;
+      addedKeys.push(key);
     }
   }
 
@@ -155,17 +212,150 @@ function saveSettings(settings) {
   fs.writeFileSync(settingsPath, JSON.stringify(settings, null, 2), 'utf-8');
 }
 
-// Main installation function
-function install() {
-  log('\n=== Claude Memoria Installation ===\n', 'blue');
+// Copy prompt templates without clobbering the user's edits. A template is
+// replaced only when it is missing or still exactly what the last install (or
+// any earlier release) wrote; otherwise, if this version changes it, the new
+// version goes next to it as <name>.new. Returns the hashes of the templates
+// this version ships, whether installed or offered as <name>.new.
+function installPrompts(srcPromptsDir, previous) {
+  ensureDir(promptsDir);
+  const hashes = {};
+
+  for (const name of fs.readdirSync(srcPromptsDir)) {
+    const srcPath = path.join(srcPromptsDir, name);
+    const destPath = path.join(promptsDir, name);
+    const newPath = `${destPath}.new`;
+    const srcHash = fileHash(srcPath);
+
+    if (!fs.existsSync(destPath)) {
+      fs.copyFileSync(srcPath, destPath);
+      hashes[name] = srcHash;
+      continue;
+    }
+
+    const destHash = fileHash(destPath);
+    if (destHash === srcHash || destHash === previous[name] || isShippedPrompt(name, destHash)) {
+      if (destHash !== srcHash) {
+        fs.copyFileSync(srcPath, destPath);
+        log(`Updated prompt ${name}`, 'green');
+      }
+      hashes[name] = srcHash;
+      if (fs.existsSync(newPath)) {
+        fs.unlinkSync(newPath);
+      }
+      continue;
+    }
+
+    // Modified by the user. Nothing to merge if the shipped version has not
+    // changed since the last install.
+    if (srcHash !== previous[name]) {
+      fs.copyFileSync(srcPath, newPath);
+      log(`⚠ Kept your modified ${destPath}; the new version is in ${name}.new`, 'yellow');
+    }
+    hashes[name] = srcHash;
+  }
+
+  return hashes;
+}
+
+// Remove exactly the hook commands and top-level keys the installer added.
+// Hooks registered by other tools, and settings the user changed since, stay.
+function unmergeSettings(manifest) {
+  if (!fs.existsSync(settingsPath)) {
+    return null;
+  }
+  const settings = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
+
+  const commands = new Set([
+    ...((manifest && manifest.settings && manifest.settings.commands) || []),
+    ...Object.values(HOOK_SCRIPTS).map(hookCommand)
+  ]);
+  let removed = 0;
+
+  for (const [eventName, groups] of Object.entries(settings.hooks || {})) {
+    if (!Array.isArray(groups)) continue;
+
+    settings.hooks[eventName] = groups
+      .map(group => {
+        const hooks = (group.hooks || []).filter(h => !commands.has(h.command));
+        removed += (group.hooks || []).length - hooks.length;
+        return hooks.length === (group.hooks || []).length ? group : { ...group, hooks };
+      })
+      .filter(group => !Array.isArray(group.hooks) || group.hooks.length > 0);
+
+    if (settings.hooks[eventName].length === 0) {
+      delete settings.hooks[eventName];
+    }
+  }
+  if (settings.hooks && Object.keys(settings.hooks).length === 0) {
+    delete settings.hooks;
+  }
+
+  let srcSettings = {};
+  try {
+    srcSettings = loadSourceSettings(path.join(sourceDir, 'settings.json'));
+  } catch (e) {
+    // Without the template, only keys whose value can be compared are removed
+  }
+  const keys = (manifest && manifest.settings && manifest.settings.keys) || [];
+  for (const key of keys) {
+    if (key in settings && JSON.stringify(settings[key]) === JSON.stringify(srcSettings[key])) {
+      delete settings[key];
+    }
+  }
+
+  return { settings, removed };
+}
+
+function removeIfEmpty(dir) {
+  if (fs.existsSync(dir) && fs.readdirSync(dir).length === 0) {
+    fs.rmdirSync(dir);
+  }
+}
+
+// Newest and oldest modification time of the files under dir
+function mtimeRange(dir) {
+  let newest = 0;
+  let oldest = Infinity;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      const range = mtimeRange(entryPath);
+      newest = Math.max(newest, range.newest);
+      oldest = Math.min(oldest, range.oldest);
+    } else {
+      const mtime = fs.statSync(entryPath).mtimeMs;
+      newest = Math.max(newest, mtime);
+      oldest = Math.min(oldest, mtime);
+    }
+  }
+  return { newest, oldest };
+}
+
+// Missing, or some source file changed after the oldest built file, e.g.
+// after a `git pull` without `npm run build`
+function isBuildStale(distDir) {
+  const builtDirs = ['hooks', 'cli'].map(name => path.join(distDir, name));
+  if (!builtDirs.every(dir => fs.existsSync(dir))) {
+    return true;
+  }
+  const built = Math.min(...builtDirs.map(dir => mtimeRange(dir).oldest));
+  return mtimeRange(path.join(sourceDir, 'hooks')).newest > built ||
+         mtimeRange(path.join(sourceDir, 'cli')).newest > built;
+}
+
+// Main installation function. Also upgrades an existing installation.
+function install(upgrade) {
+  const manifest = loadManifest();
+  log(`\n=== Claude Memoria ${upgrade || manifest ? 'Upgrade' : 'Installation'} ===\n`, 'blue');
 
   try {
-    // Step 1: Check directories, build if needed
+    // Step 1: Build if there is no build or it is older than the sources
     const distDir = path.join(__dirname, 'dist');
-    if (!fs.existsSync(distDir)) {
-      log('ℹ Dist directory not found. Building...', 'blue');
+    if (isBuildStale(distDir)) {
+      log(`ℹ ${fs.existsSync(distDir) ? 'Build is older than the sources' : 'Dist directory not found'}. Building...`, 'blue');
       try {
-        require('child_process').execSync('npx esbuild src/hooks/session_end.ts src/hooks/precompact.ts src/hooks/user_prompt_inject.ts src/hooks/common.ts --bundle --platform=node --target=node16 --outdir=dist/hooks', {
+        require('child_process').execSync('npm run build', {
           cwd: __dirname,
           stdio: 'inherit'
         });
@@ -181,15 +371,17 @@ function install() {
     
     // Copy compiled hooks
     const distHooksDir = path.join(distDir, 'hooks');
+    let hookFiles = [];
     if (fs.existsSync(distHooksDir)) {
       copyDir(distHooksDir, hooksDir);
+      hookFiles = fs.readdirSync(distHooksDir);
     }
 
-    // Copy prompts
+    // Copy prompts, keeping the user's modified templates
     const srcPromptsDir = path.join(sourceDir, 'prompts');
-    const destPromptsDir = path.join(claudeDir, 'prompts');
+    let prompts = {};
     if (fs.existsSync(srcPromptsDir)) {
-      copyDir(srcPromptsDir, destPromptsDir);
+      prompts = installPrompts(srcPromptsDir, (manifest && manifest.prompts) || {});
     }
 
     log('✓ Files copied to ~/.claude/', 'green');
@@ -197,14 +389,27 @@ function install() {
     // Step 3: Merge settings.json
     log('ℹ Merging settings.json...', 'blue');
     const srcSettingsPath = path.join(sourceDir, 'settings.json');
+    const addedKeys = [];
     if (fs.existsSync(srcSettingsPath)) {
-      const mergedSettings = mergeSettings(srcSettingsPath);
+      const mergedSettings = mergeSettings(srcSettingsPath, addedKeys);
       saveSettings(mergedSettings);
       log('✓ Settings merged successfully', 'green');
     } else {
       log('⚠ No settings.json found in source directory', 'yellow');
     }
 
+    const previousKeys = (manifest && manifest.settings && manifest.settings.keys) || [];
+    saveManifest({
+      version: packageVersion(),
+      installed_at: new Date().toISOString(),
+      hooks: hookFiles,
+      prompts,
+      settings: {
+        commands: Object.values(HOOK_SCRIPTS).map(hookCommand),
+        keys: [...new Set([...previousKeys, ...addedKeys])]
+      }
+    });
+
     // Display installation results
     log('\n=== Installation Complete! ===\n', 'green');
     log('ℹ Hook files installed to:', 'blue');
@@ -215,7 +420,7 @@ function install() {
     log('📝 Next steps:', 'yellow');
     console.log('1. Restart Claude Code or start a new session');
     console.log('2. Hooks are now active at user level (work across all projects)');
-    console.log('3. Check ~/.claude/settings.json to verify hook registration');
+    console.log('3. Run "node install.js doctor" to check that everything works');
 
   } catch (err) {
     log(`❌ Installation failed: ${err.message}`, 'red');
@@ -224,5 +429,96 @@ function install() {
   }
 }
 
-// Run installation
-install();
+// Reverse install(): unregister the hooks and delete the installed files.
+// Playbooks, memoria.json, the usage ledger and the reflection queue are data
+// and are left in place.
+function uninstall() {
+  log('\n=== Claude Memoria Uninstall ===\n', 'blue');
+  const manifest = loadManifest();
+
+  try {
+    const result = unmergeSettings(manifest);
+    if (result) {
+      saveSettings(result.settings);
+      log(`✓ Removed ${result.removed} hook registration${result.removed === 1 ? '' : 's'} from ${settingsPath}`, 'green');
+    }
+
+    const distHooksDir = path.join(__dirname, 'dist', 'hooks');
+    const hookFiles = (manifest && manifest.hooks) ||
+      (fs.existsSync(distHooksDir) ? fs.readdirSync(distHooksDir) : Object.values(HOOK_SCRIPTS));
+    for (const name of hookFiles) {
+      const hookPath = path.join(hooksDir, name);
+      if (fs.existsSync(hookPath)) {
+        fs.unlinkSync(hookPath);
+      }
+    }
+    removeIfEmpty(hooksDir);
+    log(`✓ Removed hook files from ${hooksDir}`, 'green');
+
+    const srcPromptsDir = path.join(sourceDir, 'prompts');
+    const promptNames = fs.existsSync(srcPromptsDir) ? fs.readdirSync(srcPromptsDir) : Object.keys((manifest && manifest.prompts) || {});
+    for (const name of promptNames) {
+      const promptPath = path.join(promptsDir, name);
+      if (fs.existsSync(`${promptPath}.new`)) {
+        fs.unlinkSync(`${promptPath}.new`);
+      }
+      if (!fs.existsSync(promptPath)) continue;
+
+      const hash = fileHash(promptPath);
+      const srcPath = path.join(srcPromptsDir, name);
+      const pristine = hash === ((manifest && manifest.prompts) || {})[name] ||
+        isShippedPrompt(name, hash) ||
+        (fs.existsSync(srcPath) && hash === fileHash(srcPath));
+      if (pristine) {
+        fs.unlinkSync(promptPath);
+      } else {
+        log(`⚠ Kept your modified ${promptPath}`, 'yellow');
+      }
+    }
+    removeIfEmpty(promptsDir);
+
+    if (fs.existsSync(manifestPath)) {
+      fs.unlinkSync(manifestPath);
+    }
+
+    log('\n=== Uninstall Complete! ===\n', 'green');
+    log('ℹ Learned data was kept; delete it by hand if you no longer need it:', 'blue');
+    console.log(`  ${path.join(claudeDir, 'playbook.json')} and <project>/.claude/playbook.json`);
+    console.log(`  ${path.join(claudeDir, 'usage.jsonl')}, memoria.json and the reflection queue`);
+  } catch (err) {
+    log(`❌ Uninstall failed: ${err.message}`, 'red');
+    console.error(err);
+    process.exit(1);
+  }
+}
+
+// The checks live in the memoria CLI, which shares the hooks' code
+function doctor(args) {
+  const cli = path.join(__dirname, 'dist', 'cli', 'memoria.js');
+  if (!fs.existsSync(cli)) {
+    log('❌ dist/cli/memoria.js not found. Run "npm run build" first.', 'red');
+    process.exit(1);
+  }
+  const result = require('child_process').spawnSync(process.execPath, [cli, 'doctor', ...args], { stdio: 'inherit' });
+  process.exit(result.status === null ? 1 : result.status);
+}
+
+const [command = 'install', ...args] = process.argv.slice(2);
+switch (command) {
+  case 'install':
+    install(false);
+    break;
+  case 'upgrade':
+    install(true);
+    break;
+  case 'uninstall':
+    uninstall();
+    break;
+  case 'doctor':
+    doctor(args);
+    break;
+  default:
+    log(`Unknown command: ${command}`, 'red');
+    console.log('Usage: node install.js [install|upgrade|uninstall|doctor [--offline]]');
+    process.exit(2);
+}
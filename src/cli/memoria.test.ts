@@ -0,0 +1,153 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+
+// Built by the test script
+const CLI = path.join(process.cwd(), 'dist', 'cli', 'memoria.js');
+
+interface CliResult {
+  status: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+function setUp(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-cli-'));
+  fs.mkdirSync(path.join(root, 'home', '.claude'), { recursive: true });
+  fs.mkdirSync(path.join(root, 'project', '.claude'), { recursive: true });
+  return root;
+}
+
+function run(root: string, args: string[]): CliResult {
+  const env = { ...process.env, HOME: path.join(root, 'home'), CLAUDE_PROJECT_DIR: path.join(root, 'project') };
+  const result = spawnSync(process.execPath, [CLI, ...args], { env, encoding: 'utf-8', timeout: 30000 });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+function writePlaybook(filePath: string, keyPoints: object[]): void {
+  fs.writeFileSync(filePath, JSON.stringify({ version: '2.0', last_updated: null, key_points: keyPoints }));
+}
+
+test('merge exits 1 and keeps ours when both sides changed the text', () => {
+  const root = setUp();
+  const [base, ours, theirs] = ['base', 'ours', 'theirs'].map(name => path.join(root, `${name}.json`));
+  writePlaybook(base, [{ name: 'kpt_1', text: 'Lesson', score: 1 }]);
+  writePlaybook(ours, [{ name: 'kpt_1', text: 'Ours', score: 2 }]);
+  writePlaybook(theirs, [{ name: 'kpt_1', text: 'Theirs', score: 3 }]);
+
+  const result = run(root, ['merge', base, ours, theirs]);
+
+  assert.equal(result.status, 1);
+  assert.match(result.stderr, /conflict: kpt_1: text changed on both sides/);
+  const [kp] = JSON.parse(fs.readFileSync(ours, 'utf-8')).key_points;
+  assert.deepEqual([kp.text, kp.score], ['Ours', 4]);
+});
+
+test('merge exits 0 when the sides do not conflict', () => {
+  const root = setUp();
+  const [base, ours, theirs, output] = ['base', 'ours', 'theirs', 'output'].map(name => path.join(root, `${name}.json`));
+  writePlaybook(base, [{ name: 'kpt_1', text: 'Lesson', score: 1 }]);
+  writePlaybook(ours, [{ name: 'kpt_1', text: 'Lesson', score: 2 }]);
+  writePlaybook(theirs, [{ name: 'kpt_1', text: 'Lesson', score: 1 }, { name: 'kpt_2', text: 'New lesson', score: 0 }]);
+
+  const result = run(root, ['merge', base, ours, theirs, '--output', output]);
+
+  assert.equal(result.status, 0);
+  assert.deepEqual(JSON.parse(fs.readFileSync(output, 'utf-8')).key_points.map((kp: any) => kp.name), ['kpt_1', 'kpt_2']);
+});
+
+const LESSONS = [
+  { name: 'kpt_pnpm', text: 'Install packages with pnpm', score: 4, tags: ['tooling'] },
+  { name: 'kpt_lint', text: 'Run the linter before committing', score: 1, category: 'pattern' },
+  { name: 'kpt_docker', text: 'Start the docker daemon first', score: -2 },
+];
+
+function projectPlaybook(root: string): string {
+  return path.join(root, 'project', '.claude', 'playbook.json');
+}
+
+test('arguments: help, flag values and usage errors', () => {
+  const root = setUp();
+  writePlaybook(projectPlaybook(root), LESSONS);
+
+  for (const args of [['--help'], ['list', '-h']]) {
+    const help = run(root, args);
+    assert.equal(help.status, 0);
+    assert.match(help.stdout, /^Usage: memoria <command> \[options\]/);
+  }
+  assert.equal(run(root, []).status, 1);
+
+  // --key=value and --key value are the same
+  const inline = run(root, ['list', '--min=1', '--sort=name']);
+  assert.equal(inline.stdout, run(root, ['list', '--min', '1', '--sort', 'name']).stdout);
+  assert.deepEqual(inline.stdout.trim().split('\n').map(line => line.split(' ')[0]), ['kpt_lint', 'kpt_pnpm']);
+  // A value may contain "="
+  assert.equal(run(root, ['list', '--tag=a=b']).stdout.trim(), 'No key points.');
+
+  const usageErrors: [string[], RegExp][] = [
+    [['list', '--min'], /Missing value for --min/],
+    [['list', '--min', 'high'], /--min must be a number/],
+    [['list', '--sort', 'age'], /Unknown sort order: age/],
+    [['add', 'Lesson', '--category', 'rule'], /Category must be one of: failure, pattern, preference, fact/],
+    [['show'], /Missing key point id/],
+    [['frobnicate'], /Unknown command/],
+  ];
+  for (const [args, message] of usageErrors) {
+    const result = run(root, args);
+    assert.equal(result.status, 2, args.join(' '));
+    assert.match(result.stderr, message);
+    assert.match(result.stderr, /Run "memoria --help" for usage\./);
+  }
+});
+
+test('list and show read the playbook without writing it', () => {
+  const root = setUp();
+  const playbookPath = projectPlaybook(root);
+  writePlaybook(playbookPath, LESSONS);
+  const before = fs.readFileSync(playbookPath, 'utf-8');
+
+  const list = run(root, ['list']);
+  assert.equal(list.status, 0);
+  assert.deepEqual(list.stdout.trim().split('\n'), [
+    'kpt_pnpm    4  Install packages with pnpm #tooling',
+    'kpt_lint    1 (pattern)  Run the linter before committing',
+    'kpt_docker   -2  Start the docker daemon first',
+  ]);
+  assert.deepEqual(JSON.parse(run(root, ['list', '--category', 'pattern', '--json']).stdout).map((kp: any) => kp.name), ['kpt_lint']);
+  assert.equal(JSON.parse(run(root, ['show', 'kpt_pnpm']).stdout).text, 'Install packages with pnpm');
+
+  const missing = run(root, ['show', 'kpt_nope']);
+  assert.equal(missing.status, 1);
+  assert.match(missing.stderr, /No key point named kpt_nope/);
+
+  assert.equal(fs.readFileSync(playbookPath, 'utf-8'), before);
+  assert.equal(fs.existsSync(path.join(root, 'project', '.claude', 'playbook.history.jsonl')), false);
+});
+
+test('add, pin and delete change the playbook and record history', () => {
+  const root = setUp();
+  const playbookPath = projectPlaybook(root);
+  writePlaybook(playbookPath, LESSONS);
+
+  const added = run(root, ['add', 'Use', 'conventional', 'commits', '--score', '2', '--tags', 'git,style']);
+  assert.equal(added.status, 0);
+  const name = added.stdout.match(/^Added (kpt_\S+)/)![1];
+
+  assert.equal(run(root, ['pin', name]).status, 0);
+  assert.equal(run(root, ['delete', 'kpt_docker']).status, 0);
+  assert.equal(run(root, ['add', 'Install packages with pnpm']).status, 2);
+
+  const keyPoints = JSON.parse(fs.readFileSync(playbookPath, 'utf-8')).key_points;
+  assert.deepEqual(keyPoints.map((kp: any) => kp.name), ['kpt_pnpm', 'kpt_lint', name]);
+  const kp = keyPoints[2];
+  assert.deepEqual([kp.text, kp.score, kp.tags, kp.pinned], ['Use conventional commits', 2, ['git', 'style'], true]);
+
+  const history = run(root, ['history']);
+  assert.equal(history.status, 0);
+  assert.match(history.stdout, /cli:add/);
+  assert.match(history.stdout, /cli:pin/);
+  assert.match(history.stdout, /cli:delete/);
+});
@@ -0,0 +1,963 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import {
+  loadPlaybook,
+  loadPlaybookStrict,
+  readPlaybookFile,
+  savePlaybook,
+  generateKeypointName,
+  createKeyPoint,
+  getPlaybookPath,
+  curatePlaybookFile,
+  hasProjectLayer,
+  updatePlaybookFile,
+  loadScoringPolicy,
+  loadPrices,
+  loadReviewPolicy,
+  getUserClaudeDir,
+  GLOBAL_PREFIX,
+  MergeRecord,
+  PlaybookScope,
+  KeyPoint,
+  KeyPointCategory,
+  KEY_POINT_CATEGORIES,
+  Playbook,
+} from '../hooks/common.js';
+import { compareKeyPoints } from '../hooks/budget.js';
+import { withFileLock, writeFileAtomic } from '../hooks/lock.js';
+import { getDedupThreshold, textSimilarity } from '../hooks/dedupe.js';
+import {
+  IMPORTED_TAG,
+  getClaudeMdPath,
+  parseClaudeMdRules,
+  renderManagedSection,
+  replaceManagedSection,
+  selectExportKeyPoints,
+} from '../hooks/claude_md.js';
+import {
+  HistoryEntry,
+  PlaybookChange,
+  appendHistory,
+  changeMentions,
+  getHistoryPath,
+  readHistory,
+  rollbackKeyPoints,
+} from '../hooks/history.js';
+import { ReflectionJob, listFailedJobs, listPendingJobs, retryFailedJobs, startWorker } from '../hooks/queue.js';
+import { CONFIG_OPTIONS, MemoriaConfig, formatConfigIssue, resolveConfig } from '../hooks/config.js';
+import { formatMergeConflict, mergePlaybooks } from '../hooks/merge.js';
+import { approveKeyPoint, isApproved, rejectKeyPoint } from '../hooks/review.js';
+import { formatProvenanceRecord } from '../hooks/provenance.js';
+import { CheckStatus, runDoctorChecks } from '../hooks/doctor.js';
+import {
+  USAGE_GROUPINGS,
+  UsageGrouping,
+  UsageSummary,
+  getUsageLedgerPath,
+  readUsage,
+  summarizeUsage,
+} from '../hooks/usage.js';
+
+const USAGE = `Usage: memoria <command> [options]
+
+Commands:
+  list [--min N] [--max N] [--pinned] [--pending] [--category C] [--tag T] [--sort score|name] [--json]
+                                  List key points (default: highest score first)
+  show <kpt_id>                   Show a single key point with its metadata
+  provenance <kpt_id> [--json]    Show which sessions learned or rated a key point, and their evidence
+  add <text> [--score N] [--pin] [--category C] [--tags a,b]
+                                  Add a key point
+  edit <kpt_id> [text] [--category C]
+                                  Replace the text and/or category of a key point
+  tag <kpt_id> <tag>...           Add tags to a key point
+  untag <kpt_id> <tag>...         Remove tags from a key point
+  delete <kpt_id>                 Delete a key point
+  pin <kpt_id>                    Protect a key point from automatic pruning
+  unpin <kpt_id>                  Remove the pin from a key point
+  rescore <kpt_id> <score|+N|-N>  Set or adjust the score of a key point
+  prune --below N [--dry-run]     Delete unpinned key points scoring below N
+  dedupe [--dry-run]              Merge near-duplicate key points
+  merges [kpt_id]                 Show which key points were folded into which
+  promote <kpt_id>                Move a project key point to the global playbook
+  review [--json]                 List key points pending review, global ones as global:<kpt_id>
+  approve <kpt_id>... | --all     Approve pending key points so they are injected
+  reject <kpt_id>...              Delete key points and keep the same lesson from being proposed again
+  export [--min N] [--file PATH] [--dry-run]
+                                  Write key points scoring at least N (default: 1) and pinned ones
+                                  into the managed section of CLAUDE.md
+  import [--file PATH] [--pin] [--dry-run]
+                                  Add the bullet rules written in CLAUDE.md as key points
+  history [kpt_id] [--limit N]    Show recorded playbook revisions
+  rollback <revision>             Restore the key points as of a revision (0 = before any)
+  queue [--retry]                 Show queued and failed reflection jobs; --retry requeues failed ones
+  stats [--by day|project|trigger|model] [--days N] [--json]
+                                  Summarize reflection token usage, cache hit rate and cost
+  config [--check] [--json] [--describe]
+                                  Show the effective configuration and where each value comes from;
+                                  --check fails on configuration problems, --describe lists all options
+  doctor [--offline] [--json]     Check hook registration, installed files, prompt templates, playbooks
+                                  and API connectivity (--offline skips the API call)
+  merge <base> <ours> <theirs> [--output FILE]
+                                  Three-way merge of playbook files, written to <ours> (git merge driver);
+                                  exits 1 when edits conflicted
+
+Options:
+  --project <dir>  Project directory (default: CLAUDE_PROJECT_DIR or the current directory)
+  --global         Operate on the user-level playbook in ~/.claude instead
+  -h, --help       Show this help
+
+Categories: failure, pattern, preference, fact`;
+
+class UsageError extends Error {}
+
+interface ParsedArgs {
+  positional: string[];
+  flags: Record<string, string | boolean>;
+}
+
+const VALUE_FLAGS = new Set(['min', 'max', 'sort', 'score', 'below', 'project', 'limit', 'category', 'tag', 'tags', 'by', 'days', 'file', 'output']);
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      flags['help'] = true;
+    } else if (arg.startsWith('--')) {
+      const [key, inlineValue] = arg.slice(2).split(/=(.*)/s);
+      if (VALUE_FLAGS.has(key)) {
+        const value = inlineValue ?? argv[++i];
+        if (value === undefined) {
+          throw new UsageError(`Missing value for --${key}`);
+        }
+        flags[key] = value;
+      } else {
+        flags[key] = true;
+      }
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { positional, flags };
+}
+
+function parseNumber(value: string | boolean | undefined, label: string): number {
+  const num = Number(value);
+  if (typeof value !== 'string' || value.trim() === '' || isNaN(num)) {
+    throw new UsageError(`${label} must be a number`);
+  }
+  return num;
+}
+
+function parseCategory(value: string | boolean | undefined): KeyPointCategory {
+  if (typeof value !== 'string' || !KEY_POINT_CATEGORIES.includes(value as KeyPointCategory)) {
+    throw new UsageError(`Category must be one of: ${KEY_POINT_CATEGORIES.join(', ')}`);
+  }
+  return value as KeyPointCategory;
+}
+
+function parseTags(values: string[]): string[] {
+  return values.flatMap(value => value.split(',')).map(tag => tag.trim()).filter(Boolean);
+}
+
+let scope: PlaybookScope = 'project';
+
+function findKeyPoint(playbook: Playbook, name: string | undefined, where: PlaybookScope = scope): KeyPoint {
+  if (!name) {
+    throw new UsageError('Missing key point id');
+  }
+  const kp = playbook.key_points.find(k => k.name === name);
+  if (!kp) {
+    throw new Error(`No key point named ${name} in ${getPlaybookPath(where)}`);
+  }
+  return kp;
+}
+
+// Review commands on a project also cover the user-level playbook, whose key
+// points they show and accept with the `global:` prefix
+function reachesGlobal(): boolean {
+  return scope === 'project' && hasProjectLayer();
+}
+
+function withGlobalName(kp: KeyPoint): KeyPoint {
+  return { ...kp, name: `${GLOBAL_PREFIX}${kp.name}` };
+}
+
+function splitGlobalIds(names: string[]): { local: string[]; global: string[] } {
+  const global = names.filter(name => name.startsWith(GLOBAL_PREFIX)).map(name => name.slice(GLOBAL_PREFIX.length));
+  if (global.length > 0 && !reachesGlobal()) {
+    throw new UsageError(`${GLOBAL_PREFIX} ids need a project playbook; with --global use the id without the prefix`);
+  }
+  return { local: names.filter(name => !name.startsWith(GLOBAL_PREFIX)), global };
+}
+
+function formatKeyPoint(kp: KeyPoint): string {
+  const pin = `${kp.pinned ? ' [pinned]' : ''}${isApproved(kp) ? '' : ' [pending]'}`;
+  const category = kp.category ? ` (${kp.category})` : '';
+  const tags = (kp.tags || []).map(tag => ` #${tag}`).join('');
+  return `${kp.name}  ${String(kp.score).padStart(3)}${pin}${category}  ${kp.text}${tags}`;
+}
+
+function cmdList(playbook: Playbook, args: ParsedArgs): void {
+  let keyPoints = [...playbook.key_points];
+
+  if (args.flags['min'] !== undefined) {
+    const min = parseNumber(args.flags['min'], '--min');
+    keyPoints = keyPoints.filter(kp => kp.score >= min);
+  }
+  if (args.flags['max'] !== undefined) {
+    const max = parseNumber(args.flags['max'], '--max');
+    keyPoints = keyPoints.filter(kp => kp.score <= max);
+  }
+  if (args.flags['pinned']) {
+    keyPoints = keyPoints.filter(kp => kp.pinned);
+  }
+  if (args.flags['pending']) {
+    keyPoints = keyPoints.filter(kp => !isApproved(kp));
+  }
+  if (args.flags['category'] !== undefined) {
+    const category = parseCategory(args.flags['category']);
+    keyPoints = keyPoints.filter(kp => kp.category === category);
+  }
+  if (typeof args.flags['tag'] === 'string') {
+    const tag = args.flags['tag'];
+    keyPoints = keyPoints.filter(kp => (kp.tags || []).includes(tag));
+  }
+
+  const sort = args.flags['sort'] || 'score';
+  if (sort === 'score') {
+    keyPoints.sort(compareKeyPoints);
+  } else if (sort === 'name') {
+    keyPoints.sort((a, b) => a.name.localeCompare(b.name));
+  } else {
+    throw new UsageError(`Unknown sort order: ${sort}`);
+  }
+
+  if (args.flags['json']) {
+    console.log(JSON.stringify(keyPoints, null, 2));
+    return;
+  }
+
+  if (keyPoints.length === 0) {
+    console.log('No key points.');
+    return;
+  }
+  for (const kp of keyPoints) {
+    console.log(formatKeyPoint(kp));
+  }
+}
+
+function cmdShow(playbook: Playbook, args: ParsedArgs): void {
+  console.log(JSON.stringify(findKeyPoint(playbook, args.positional[0]), null, 2));
+}
+
+function cmdProvenance(playbook: Playbook, args: ParsedArgs): void {
+  const kp = findKeyPoint(playbook, args.positional[0]);
+  const records = kp.provenance || [];
+
+  if (args.flags['json']) {
+    console.log(JSON.stringify(records, null, 2));
+    return;
+  }
+
+  console.log(formatKeyPoint(kp));
+  if ((kp.merged_from || []).length > 0) {
+    console.log(`Merged from: ${kp.merged_from!.join(', ')}`);
+  }
+  if (records.length === 0) {
+    console.log('\nNo provenance recorded (added by hand, or learned before provenance was tracked).');
+    return;
+  }
+  console.log('');
+  for (const record of records) {
+    console.log(formatProvenanceRecord(record));
+  }
+}
+
+function cmdAdd(playbook: Playbook, args: ParsedArgs): boolean {
+  const text = args.positional.join(' ').trim();
+  if (!text) {
+    throw new UsageError('Missing key point text');
+  }
+  if (playbook.key_points.some(kp => kp.text === text)) {
+    throw new UsageError('A key point with this text already exists');
+  }
+
+  const name = generateKeypointName(new Set(playbook.key_points.map(kp => kp.name)), text);
+  const kp = createKeyPoint(name, text);
+  if (args.flags['category'] !== undefined) {
+    kp.category = parseCategory(args.flags['category']);
+  }
+  if (typeof args.flags['tags'] === 'string') {
+    kp.tags = parseTags([args.flags['tags']]);
+  }
+  if (args.flags['score'] !== undefined) {
+    kp.score = parseNumber(args.flags['score'], '--score');
+  }
+  if (args.flags['pin']) {
+    kp.pinned = true;
+  }
+
+  playbook.key_points.push(kp);
+  console.log(`Added ${formatKeyPoint(kp)}`);
+  return true;
+}
+
+function cmdEdit(playbook: Playbook, args: ParsedArgs): boolean {
+  const kp = findKeyPoint(playbook, args.positional[0]);
+  const text = args.positional.slice(1).join(' ').trim();
+  if (!text && args.flags['category'] === undefined) {
+    throw new UsageError('Missing key point text or --category');
+  }
+  if (text) {
+    kp.text = text;
+  }
+  if (args.flags['category'] !== undefined) {
+    kp.category = parseCategory(args.flags['category']);
+  }
+  console.log(`Updated ${formatKeyPoint(kp)}`);
+  return true;
+}
+
+function cmdTag(playbook: Playbook, args: ParsedArgs, add: boolean): boolean {
+  const kp = findKeyPoint(playbook, args.positional[0]);
+  const tags = parseTags(args.positional.slice(1));
+  if (tags.length === 0) {
+    throw new UsageError('Missing tag');
+  }
+
+  const current = kp.tags || [];
+  kp.tags = add
+    ? [...current, ...tags.filter(tag => !current.includes(tag))]
+    : current.filter(tag => !tags.includes(tag));
+  console.log(`${add ? 'Tagged' : 'Untagged'} ${formatKeyPoint(kp)}`);
+  return true;
+}
+
+function cmdDelete(playbook: Playbook, args: ParsedArgs): boolean {
+  const kp = findKeyPoint(playbook, args.positional[0]);
+  playbook.key_points = playbook.key_points.filter(k => k !== kp);
+  console.log(`Deleted ${formatKeyPoint(kp)}`);
+  return true;
+}
+
+function cmdPin(playbook: Playbook, args: ParsedArgs, pinned: boolean): boolean {
+  const kp = findKeyPoint(playbook, args.positional[0]);
+  if (pinned) {
+    kp.pinned = true;
+  } else {
+    delete kp.pinned;
+  }
+  console.log(`${pinned ? 'Pinned' : 'Unpinned'} ${formatKeyPoint(kp)}`);
+  return true;
+}
+
+function cmdRescore(playbook: Playbook, args: ParsedArgs): boolean {
+  const kp = findKeyPoint(playbook, args.positional[0]);
+  const value = args.positional[1];
+  const num = parseNumber(value, 'Score');
+  kp.score = /^[+-]/.test(value) ? kp.score + num : num;
+  console.log(`Rescored ${formatKeyPoint(kp)}`);
+  return true;
+}
+
+function cmdReview(playbook: Playbook, args: ParsedArgs): void {
+  const globalPending = reachesGlobal()
+    ? loadPlaybook('global').key_points.filter(kp => !isApproved(kp)).map(withGlobalName)
+    : [];
+  const pending = [...playbook.key_points.filter(kp => !isApproved(kp)), ...globalPending].sort(compareKeyPoints);
+
+  if (args.flags['json']) {
+    console.log(JSON.stringify(pending, null, 2));
+    return;
+  }
+
+  const policy = loadReviewPolicy();
+  if (!policy.enabled) {
+    console.log('Review mode is off (set "review": true in memoria.json); new key points are injected right away.');
+  }
+  if (pending.length === 0) {
+    console.log('No key points pending review.');
+    return;
+  }
+  for (const kp of pending) {
+    const helpful = (kp.helpful_sessions || []).length;
+    console.log(`${formatKeyPoint(kp)}  (helpful in ${helpful}/${policy.approvals} sessions)`);
+  }
+  console.log(`\n${pending.length} pending. Approve with "memoria approve <kpt_id>", reject with "memoria reject <kpt_id>".`);
+}
+
+function approveKeyPoints(keyPoints: KeyPoint[], show: (kp: KeyPoint) => KeyPoint = kp => kp): boolean {
+  let changed = false;
+  for (const kp of keyPoints) {
+    if (isApproved(kp)) {
+      console.log(`Already approved: ${formatKeyPoint(show(kp))}`);
+      continue;
+    }
+    approveKeyPoint(kp);
+    changed = true;
+    console.log(`Approved ${formatKeyPoint(show(kp))}`);
+  }
+  return changed;
+}
+
+async function cmdApprove(playbook: Playbook, args: ParsedArgs): Promise<boolean> {
+  const all = Boolean(args.flags['all']);
+  if (!all && args.positional.length === 0) {
+    throw new UsageError('Missing key point id');
+  }
+  const ids = splitGlobalIds(args.positional);
+  const keyPoints = all
+    ? playbook.key_points.filter(kp => !isApproved(kp))
+    : ids.local.map(name => findKeyPoint(playbook, name));
+
+  let globalCount = 0;
+  if (reachesGlobal() && (all || ids.global.length > 0)) {
+    await updatePlaybookFile('global', (global) => {
+      const globalKeyPoints = all
+        ? global.key_points.filter(kp => !isApproved(kp))
+        : ids.global.map(name => findKeyPoint(global, name, 'global'));
+      globalCount = globalKeyPoints.length;
+      approveKeyPoints(globalKeyPoints, withGlobalName);
+    }, { trigger: 'cli:approve' });
+  }
+
+  if (all && keyPoints.length === 0 && globalCount === 0) {
+    console.log('No key points pending review.');
+    return false;
+  }
+  return approveKeyPoints(keyPoints);
+}
+
+async function cmdReject(playbook: Playbook, args: ParsedArgs): Promise<boolean> {
+  if (args.positional.length === 0) {
+    throw new UsageError('Missing key point id');
+  }
+  const ids = splitGlobalIds(args.positional);
+  const keyPoints = ids.local.map(name => findKeyPoint(playbook, name));
+
+  if (ids.global.length > 0) {
+    await updatePlaybookFile('global', (global) => {
+      for (const kp of ids.global.map(name => findKeyPoint(global, name, 'global'))) {
+        rejectKeyPoint(global, kp);
+        console.log(`Rejected ${formatKeyPoint(withGlobalName(kp))}`);
+      }
+    }, { trigger: 'cli:reject' });
+  }
+
+  for (const kp of keyPoints) {
+    rejectKeyPoint(playbook, kp);
+    console.log(`Rejected ${formatKeyPoint(kp)}`);
+  }
+  return keyPoints.length > 0;
+}
+
+function cmdPrune(playbook: Playbook, args: ParsedArgs): boolean {
+  if (args.flags['below'] === undefined) {
+    throw new UsageError('prune requires --below N');
+  }
+  const below = parseNumber(args.flags['below'], '--below');
+  const doomed = playbook.key_points.filter(kp => !kp.pinned && kp.score < below);
+
+  const dryRun = Boolean(args.flags['dry-run']);
+  for (const kp of doomed) {
+    console.log(`${dryRun ? 'Would delete' : 'Deleted'} ${formatKeyPoint(kp)}`);
+  }
+  console.log(`${doomed.length} key point${doomed.length === 1 ? '' : 's'} below ${below}.`);
+
+  if (dryRun || doomed.length === 0) {
+    return false;
+  }
+  playbook.key_points = playbook.key_points.filter(kp => !doomed.includes(kp));
+  return true;
+}
+
+function formatMerge(record: MergeRecord): string {
+  const when = record.merged_at ? `  ${record.merged_at}` : '';
+  return `${record.from} -> ${record.into}  (similarity ${record.similarity}, ${record.method})${when}\n    ${record.text}`;
+}
+
+// Runs outside the command lock: with dedup_llm the model is asked first and
+// the playbook is locked only to apply the merges
+async function cmdDedupe(args: ParsedArgs): Promise<number> {
+  const dryRun = Boolean(args.flags['dry-run']);
+  const records = await curatePlaybookFile(scope, { trigger: 'cli:dedupe' }, dryRun);
+
+  for (const record of records) {
+    console.log(`${dryRun ? 'Would merge' : 'Merged'} ${formatMerge(record)}`);
+  }
+  console.log(`${records.length} near-duplicate${records.length === 1 ? '' : 's'} found.`);
+  return 0;
+}
+
+function cmdMerges(playbook: Playbook, args: ParsedArgs): void {
+  const name = args.positional[0];
+  const records = (playbook.merges || []).filter(r => !name || r.into === name || r.from === name);
+
+  if (records.length === 0) {
+    console.log('No merges recorded.');
+    return;
+  }
+  for (const record of records) {
+    console.log(formatMerge(record));
+  }
+}
+
+function claudeMdPath(args: ParsedArgs): string {
+  return typeof args.flags['file'] === 'string'
+    ? args.flags['file']
+    : getClaudeMdPath(getPlaybookPath(scope), scope);
+}
+
+// Writes CLAUDE.md only; the playbook itself is not modified
+function cmdExport(playbook: Playbook, args: ParsedArgs): void {
+  const minScore = args.flags['min'] !== undefined ? parseNumber(args.flags['min'], '--min') : 1;
+  const filePath = claudeMdPath(args);
+  const content = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : '';
+
+  const selected = selectExportKeyPoints(playbook.key_points, minScore);
+  const source = scope === 'global' ? '~/.claude/playbook.json' : '.claude/playbook.json';
+  const updated = replaceManagedSection(content, renderManagedSection(selected, source));
+
+  if (args.flags['dry-run']) {
+    console.log(updated);
+    return;
+  }
+  if (updated === content) {
+    console.log(`${filePath} is up to date.`);
+    return;
+  }
+  writeFileAtomic(filePath, updated);
+  console.log(`Exported ${selected.length} key point${selected.length === 1 ? '' : 's'} to ${filePath}.`);
+}
+
+// Rules that are already in the playbook, also as a paraphrase, are skipped
+function cmdImport(playbook: Playbook, args: ParsedArgs): boolean {
+  const filePath = claudeMdPath(args);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`${filePath} does not exist`);
+  }
+  const rules = parseClaudeMdRules(fs.readFileSync(filePath, 'utf-8'));
+  const threshold = getDedupThreshold();
+  const dryRun = Boolean(args.flags['dry-run']);
+
+  let added = 0;
+  for (const rule of rules) {
+    if (playbook.key_points.some(kp => textSimilarity(kp.text, rule) >= threshold)) {
+      continue;
+    }
+    const name = generateKeypointName(new Set(playbook.key_points.map(kp => kp.name)), rule);
+    const kp = createKeyPoint(name, rule, { tags: [IMPORTED_TAG] });
+    if (args.flags['pin']) {
+      kp.pinned = true;
+    }
+    playbook.key_points.push(kp);
+    added++;
+    console.log(`${dryRun ? 'Would add' : 'Added'} ${formatKeyPoint(kp)}`);
+  }
+
+  console.log(`${added} of ${rules.length} rule${rules.length === 1 ? '' : 's'} ${dryRun ? 'would be imported' : 'imported'} from ${filePath}.`);
+  return !dryRun && added > 0;
+}
+
+async function cmdPromote(playbook: Playbook, args: ParsedArgs): Promise<boolean> {
+  if (scope === 'global' || !hasProjectLayer()) {
+    throw new UsageError('promote needs a project playbook (set --project or CLAUDE_PROJECT_DIR)');
+  }
+  const kp = findKeyPoint(playbook, args.positional[0]);
+
+  await updatePlaybookFile('global', (global) => {
+    if (global.key_points.some(g => g.text === kp.text)) {
+      console.log(`${kp.name} is already in the global playbook`);
+      return;
+    }
+    const name = generateKeypointName(new Set(global.key_points.map(g => g.name)), kp.text);
+    global.key_points.push({ ...kp, name });
+    console.log(`Promoted ${kp.name} to global ${name}`);
+  }, { trigger: 'cli:promote' });
+
+  playbook.key_points = playbook.key_points.filter(k => k !== kp);
+  return true;
+}
+
+function formatChange(change: PlaybookChange): string {
+  switch (change.type) {
+    case 'added':
+      return `  + ${change.key_point.name} added: ${change.key_point.text}`;
+    case 'score_changed':
+      return `  ~ ${change.name} score ${change.from} -> ${change.to}`;
+    case 'edited':
+      if (!isApproved(change.before) && isApproved(change.after)) {
+        return `  * ${change.name} approved: ${change.after.text}`;
+      }
+      return `  * ${change.name} edited: ${change.after.text}`;
+    case 'merged':
+      return `  > ${change.key_point.name} merged into ${change.into}: ${change.key_point.text}`;
+    case 'pruned':
+    case 'removed':
+      return `  - ${change.key_point.name} ${change.type} (score ${change.key_point.score}): ${change.key_point.text}`;
+  }
+}
+
+function formatHistoryEntry(entry: HistoryEntry, changes: PlaybookChange[]): string {
+  const session = entry.session_id ? `  session ${entry.session_id}` : '';
+  return [`r${entry.revision}  ${entry.timestamp}  ${entry.trigger}${session}`, ...changes.map(formatChange)].join('\n');
+}
+
+function cmdHistory(args: ParsedArgs): void {
+  const name = args.positional[0];
+  let entries = readHistory(getHistoryPath(getPlaybookPath(scope)))
+    .map(entry => ({ entry, changes: name ? entry.changes.filter(c => changeMentions(c, name)) : entry.changes }))
+    .filter(item => item.changes.length > 0);
+
+  if (args.flags['limit'] !== undefined) {
+    entries = entries.slice(-parseNumber(args.flags['limit'], '--limit'));
+  }
+
+  if (entries.length === 0) {
+    console.log('No history recorded.');
+    return;
+  }
+  for (const { entry, changes } of entries) {
+    console.log(formatHistoryEntry(entry, changes));
+  }
+}
+
+function cmdRollback(playbook: Playbook, args: ParsedArgs): boolean {
+  const revision = parseNumber(args.positional[0], 'Revision');
+  const history = readHistory(getHistoryPath(getPlaybookPath(scope)));
+
+  // Older revisions may have been dropped from the log; the state before
+  // the oldest one kept is the furthest it can go back
+  const oldest = history.length > 0 ? Math.min(...history.map(entry => entry.revision)) - 1 : 0;
+  if (revision < oldest) {
+    throw new Error(`r${revision} is older than the playbook history kept, which goes back to r${oldest}`);
+  }
+  if (revision !== oldest && !history.some(entry => entry.revision === revision)) {
+    throw new Error(`No revision r${revision} in the playbook history`);
+  }
+  const undone = history.filter(entry => entry.revision > revision).length;
+  if (undone === 0) {
+    console.log(`Playbook is already at r${revision}.`);
+    return false;
+  }
+
+  playbook.key_points = rollbackKeyPoints(playbook.key_points, history, revision);
+  console.log(`Rolled back ${undone} revision${undone === 1 ? '' : 's'} to r${revision}.`);
+  return true;
+}
+
+function formatJob(job: ReflectionJob): string {
+  const error = job.last_error ? `  (${job.last_error})` : '';
+  return `${job.id}  ${job.trigger}  attempts ${job.attempts}  ${job.transcript_path}${error}`;
+}
+
+function cmdQueue(args: ParsedArgs): void {
+  if (args.flags['retry']) {
+    const count = retryFailedJobs();
+    if (count > 0) {
+      startWorker();
+    }
+    console.log(`Requeued ${count} failed job${count === 1 ? '' : 's'}.`);
+    return;
+  }
+
+  const pending = listPendingJobs();
+  const failed = listFailedJobs();
+  if (pending.length === 0 && failed.length === 0) {
+    console.log('No reflection jobs queued.');
+    return;
+  }
+  for (const job of pending) {
+    console.log(`pending  ${formatJob(job)}  next ${job.next_attempt_at}`);
+  }
+  for (const job of failed) {
+    console.log(`failed   ${formatJob(job)}`);
+  }
+}
+
+function formatSummaryTable(title: string, summaries: UsageSummary[]): string {
+  const header = [title, 'runs', 'failed', 'input', 'output', 'cache read', 'cache write', 'hit rate', 'cost'];
+  const rows = summaries.map(s => [
+    s.key,
+    String(s.runs),
+    String(s.failed),
+    String(s.input_tokens),
+    String(s.output_tokens),
+    String(s.cache_read_input_tokens),
+    String(s.cache_creation_input_tokens),
+    `${(s.cache_hit_rate * 100).toFixed(1)}%`,
+    `$${s.cost.toFixed(4)}${s.unpriced > 0 ? '*' : ''}`,
+  ]);
+  const widths = header.map((cell, i) => Math.max(cell.length, ...rows.map(row => row[i].length)));
+  // Left-align the key column, right-align the numbers
+  const format = (row: string[]) => row
+    .map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i])))
+    .join('  ');
+  return [format(header), ...rows.map(format)].join('\n');
+}
+
+function cmdStats(args: ParsedArgs): void {
+  const by = args.flags['by'];
+  if (by !== undefined && !USAGE_GROUPINGS.includes(by as UsageGrouping)) {
+    throw new UsageError(`--by must be one of: ${USAGE_GROUPINGS.join(', ')}`);
+  }
+
+  let records = readUsage(getUsageLedgerPath(getUserClaudeDir()));
+  if (args.flags['days'] !== undefined) {
+    const since = Date.now() - parseNumber(args.flags['days'], '--days') * 24 * 60 * 60 * 1000;
+    records = records.filter(record => Date.parse(record.timestamp) >= since);
+  }
+
+  const prices = loadPrices();
+  const groupings: UsageGrouping[] = by ? [by as UsageGrouping] : ['day', 'project', 'trigger'];
+
+  if (args.flags['json']) {
+    const report: Record<string, UsageSummary[]> = { total: summarizeUsage(records, prices) };
+    for (const grouping of groupings) {
+      report[grouping] = summarizeUsage(records, prices, grouping);
+    }
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  if (records.length === 0) {
+    console.log('No usage recorded.');
+    return;
+  }
+
+  const total = summarizeUsage(records, prices);
+  const sections = [formatSummaryTable('total', total)];
+  for (const grouping of groupings) {
+    sections.push(formatSummaryTable(grouping, summarizeUsage(records, prices, grouping)));
+  }
+  console.log(sections.join('\n\n'));
+  if (total[0].unpriced > 0) {
+    console.log('\n* includes runs of models without a price; add them to "prices" in memoria.json');
+  }
+}
+
+function formatConfigValue(value: any): string {
+  if (value === undefined) return '(unset)';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function cmdConfig(args: ParsedArgs): void {
+  const keys = Object.keys(CONFIG_OPTIONS) as (keyof MemoriaConfig)[];
+  const width = Math.max(...keys.map(key => key.length));
+
+  if (args.flags['describe']) {
+    for (const key of keys) {
+      const spec = CONFIG_OPTIONS[key];
+      const env = spec.env ? `  (${spec.env})` : '';
+      console.log(`${key.padEnd(width)}  ${spec.description}; default ${formatConfigValue(spec.default)}${env}`);
+    }
+    return;
+  }
+
+  const resolved = resolveConfig();
+
+  if (args.flags['json']) {
+    console.log(JSON.stringify(resolved, null, 2));
+  } else {
+    for (const file of resolved.files) {
+      console.log(`${file.source.padEnd(13)}  ${file.path}${file.found ? '' : ' (not found)'}`);
+    }
+    console.log('');
+
+    for (const key of keys) {
+      const sources = resolved.sources[key]
+        .map(source => (source === 'env' ? `env ${CONFIG_OPTIONS[key].env}` : source))
+        .join(', ');
+      console.log(`${key.padEnd(width)}  ${formatConfigValue(resolved.config[key])}  [${sources}]`);
+    }
+
+    if (resolved.issues.length > 0) {
+      console.log('\nProblems (these values were ignored):');
+      for (const issue of resolved.issues) {
+        console.log(`  ${formatConfigIssue(issue)}`);
+      }
+    }
+  }
+
+  if (args.flags['check'] && resolved.issues.length > 0) {
+    throw new Error(`${resolved.issues.length} configuration problem${resolved.issues.length === 1 ? '' : 's'}`);
+  }
+}
+
+const CHECK_MARKS: Record<CheckStatus, string> = { ok: 'ok  ', warn: 'WARN', fail: 'FAIL', skip: 'skip' };
+
+// Runs outside the playbook lock: a broken playbook is one of the things it
+// reports. Exit code 1 when any check failed.
+async function cmdDoctor(args: ParsedArgs): Promise<number> {
+  const checks = await runDoctorChecks({ offline: Boolean(args.flags['offline']) });
+
+  if (args.flags['json']) {
+    console.log(JSON.stringify(checks, null, 2));
+  } else {
+    const width = Math.max(...checks.map(check => check.name.length));
+    for (const check of checks) {
+      console.log(`${CHECK_MARKS[check.status]}  ${check.name.padEnd(width)}  ${check.detail}`);
+    }
+  }
+
+  const failed = checks.filter(check => check.status === 'fail').length;
+  const warned = checks.filter(check => check.status === 'warn').length;
+  if (!args.flags['json']) {
+    console.log(failed + warned === 0
+      ? '\nEverything looks good.'
+      : `\n${failed} problem${failed === 1 ? '' : 's'}, ${warned} warning${warned === 1 ? '' : 's'}.`);
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+// Works on the files given rather than the current playbook, so it runs
+// outside the playbook lock. Returns the exit code git expects from a merge
+// driver: 0 when clean, 1 when conflicting edits were resolved to ours.
+function cmdMerge(args: ParsedArgs): number {
+  const [basePath, oursPath, theirsPath] = args.positional;
+  if (!basePath || !oursPath || !theirsPath) {
+    throw new UsageError('Usage: memoria merge <base> <ours> <theirs> [--output FILE]');
+  }
+
+  const result = mergePlaybooks(readPlaybookFile(basePath), readPlaybookFile(oursPath), readPlaybookFile(theirsPath));
+  const outputPath = typeof args.flags['output'] === 'string' ? args.flags['output'] : oursPath;
+  writeFileAtomic(outputPath, JSON.stringify(result.playbook, null, 2));
+
+  for (const { from, to } of result.renamed) {
+    console.error(`memoria: ${from} was added on both sides; theirs is now ${to}`);
+  }
+  for (const conflict of result.conflicts) {
+    console.error(`memoria: conflict: ${formatMergeConflict(conflict)}`);
+  }
+  return result.conflicts.length > 0 ? 1 : 0;
+}
+
+// Returns true when the playbook was modified and must be saved
+async function runCommand(command: string, playbook: Playbook, args: ParsedArgs): Promise<boolean> {
+  switch (command) {
+    case 'list':
+      cmdList(playbook, args);
+      return false;
+    case 'show':
+      cmdShow(playbook, args);
+      return false;
+    case 'provenance':
+      cmdProvenance(playbook, args);
+      return false;
+    case 'add':
+      return cmdAdd(playbook, args);
+    case 'edit':
+      return cmdEdit(playbook, args);
+    case 'tag':
+      return cmdTag(playbook, args, true);
+    case 'untag':
+      return cmdTag(playbook, args, false);
+    case 'delete':
+      return cmdDelete(playbook, args);
+    case 'pin':
+      return cmdPin(playbook, args, true);
+    case 'unpin':
+      return cmdPin(playbook, args, false);
+    case 'rescore':
+      return cmdRescore(playbook, args);
+    case 'prune':
+      return cmdPrune(playbook, args);
+    case 'merges':
+      cmdMerges(playbook, args);
+      return false;
+    case 'promote':
+      return cmdPromote(playbook, args);
+    case 'review':
+      cmdReview(playbook, args);
+      return false;
+    case 'approve':
+      return cmdApprove(playbook, args);
+    case 'reject':
+      return cmdReject(playbook, args);
+    case 'export':
+      cmdExport(playbook, args);
+      return false;
+    case 'import':
+      return cmdImport(playbook, args);
+    case 'history':
+      cmdHistory(args);
+      return false;
+    case 'rollback':
+      return cmdRollback(playbook, args);
+    case 'queue':
+      cmdQueue(args);
+      return false;
+    case 'stats':
+      cmdStats(args);
+      return false;
+    case 'config':
+      cmdConfig(args);
+      return false;
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  const command = args.positional.shift();
+
+  if (!command || args.flags['help']) {
+    console.log(USAGE);
+    return command || args.flags['help'] ? 0 : 1;
+  }
+
+  if (typeof args.flags['project'] === 'string') {
+    process.env['CLAUDE_PROJECT_DIR'] = args.flags['project'];
+  } else if (!process.env['CLAUDE_PROJECT_DIR']) {
+    process.env['CLAUDE_PROJECT_DIR'] = process.cwd();
+  }
+
+  scope = args.flags['global'] ? 'global' : 'project';
+
+  if (command === 'merge') {
+    return cmdMerge(args);
+  }
+  if (command === 'doctor') {
+    return cmdDoctor(args);
+  }
+
+  const configIssues = resolveConfig().issues;
+  if (command !== 'config' && configIssues.length > 0) {
+    console.error(`memoria: warning: ${configIssues.length} configuration problem${configIssues.length === 1 ? '' : 's'}; run "memoria config" for details`);
+  }
+
+  if (command === 'dedupe') {
+    return cmdDedupe(args);
+  }
+
+  // Hold the playbook lock for the whole command so hooks running in other
+  // sessions cannot interleave their writes with ours
+  await withFileLock(getPlaybookPath(scope), async () => {
+    const playbook = loadPlaybookStrict(scope);
+    const before = JSON.parse(JSON.stringify(playbook.key_points));
+
+    if (await runCommand(command, playbook, args)) {
+      savePlaybook(playbook, scope);
+      const trigger = command === 'rollback' ? `cli:rollback:r${args.positional[0]}` : `cli:${command}`;
+      appendHistory(getHistoryPath(getPlaybookPath(scope)), before, playbook.key_points, { trigger }, loadScoringPolicy());
+    }
+  });
+  return 0;
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exit(code);
+}).catch((error) => {
+  if (error instanceof UsageError) {
+    console.error(`memoria: ${error.message}`);
+    console.error(`Run "memoria --help" for usage.`);
+    process.exit(2);
+  }
+  console.error(`memoria: ${(error as Error).message || error}`);
+  process.exit(1);
+});
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KeyPoint, createKeyPoint, emptyPlaybook, renderPlaybook } from './common.js';
+import { compareAge, compareKeyPoints, estimateTokens, fitToBudget } from './budget.js';
+
+function keyPoint(name: string, fields: Partial<KeyPoint> = {}): KeyPoint {
+  return createKeyPoint(name, `Lesson ${name}`, { created_at: '2025-01-01T00:00:00.000Z', ...fields });
+}
+
+function names(keyPoints: KeyPoint[], compare: (a: KeyPoint, b: KeyPoint) => number): string[] {
+  return [...keyPoints].sort(compare).map(kp => kp.name);
+}
+
+test('key points sort by score, then category, then newest first', () => {
+  const keyPoints = [
+    keyPoint('kpt_5ce8b0f5', { score: 1, category: 'fact' }),
+    keyPoint('kpt_0a1b2c3d', { score: 1 }),
+    keyPoint('kpt_f00dcafe', { score: 1, category: 'failure' }),
+    keyPoint('kpt_9e8d7c6b', { score: 1, category: 'pattern', created_at: '2025-01-01T00:00:00.000Z' }),
+    keyPoint('kpt_1234abcd', { score: 1, category: 'pattern', created_at: '2025-03-01T00:00:00.000Z' }),
+    keyPoint('kpt_77aa88bb', { score: 1, category: 'preference' }),
+    keyPoint('kpt_deadbeef', { score: 4, category: 'fact' }),
+  ];
+
+  assert.deepEqual(names(keyPoints, compareKeyPoints), [
+    'kpt_deadbeef',
+    'kpt_f00dcafe',
+    'kpt_1234abcd',
+    'kpt_9e8d7c6b',
+    'kpt_77aa88bb',
+    'kpt_5ce8b0f5',
+    'kpt_0a1b2c3d',
+  ]);
+});
+
+test('ties on every field are broken by name, whatever the input order', () => {
+  const keyPoints = ['kpt_5ce8b0f5', 'kpt_0a1b2c3d', 'kpt_f00dcafe'].map(name => keyPoint(name, { category: 'pattern' }));
+  const expected = ['kpt_0a1b2c3d', 'kpt_5ce8b0f5', 'kpt_f00dcafe'];
+
+  assert.deepEqual(names(keyPoints, compareKeyPoints), expected);
+  assert.deepEqual(names([...keyPoints].reverse(), compareKeyPoints), expected);
+  assert.deepEqual(names(keyPoints, compareAge), expected);
+});
+
+test('compareAge puts undated key points first and orders legacy names by number', () => {
+  const keyPoints = [
+    keyPoint('kpt_10', { created_at: '' }),
+    keyPoint('kpt_5ce8b0f5'),
+    keyPoint('kpt_9', { created_at: '' }),
+  ];
+  assert.deepEqual(names(keyPoints, compareAge), ['kpt_9', 'kpt_10', 'kpt_5ce8b0f5']);
+});
+
+test('estimateTokens counts short words once and long words by length', () => {
+  assert.equal(estimateTokens(''), 0);
+  assert.equal(estimateTokens('Run the tests.'), 5);
+  assert.equal(estimateTokens('internationalization 2025'), 6);
+});
+
+test('fitToBudget skips a key point that does not fit and tries the next', () => {
+  const render = (kp: KeyPoint) => kp.text;
+  const keyPoints = [
+    createKeyPoint('kpt_a', 'one two three'),
+    createKeyPoint('kpt_b', 'one two three four five six seven eight nine ten'),
+    createKeyPoint('kpt_c', 'one two'),
+  ];
+
+  // Each costs its words plus one: 4, 11 and 3, with 2 reserved
+  const { included, omitted } = fitToBudget(keyPoints, 10, 2, render);
+  assert.deepEqual(included.map(kp => kp.name), ['kpt_a', 'kpt_c']);
+  assert.deepEqual(omitted.map(kp => kp.name), ['kpt_b']);
+
+  assert.deepEqual(fitToBudget(keyPoints, 0, 2, render), { included: keyPoints, omitted: [] });
+  assert.deepEqual(fitToBudget(keyPoints, 2, 2, render).included, []);
+});
+
+test('renderPlaybook sorts by score and notes what the budget left out', () => {
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-budget-'));
+  fs.cpSync(path.join(process.cwd(), 'src', 'prompts'), path.join(home, '.claude', 'prompts'), { recursive: true });
+  process.env['HOME'] = home;
+
+  const playbook = emptyPlaybook();
+  playbook.key_points = [
+    keyPoint('kpt_low', { text: 'Low scored lesson', score: 0 }),
+    keyPoint('kpt_long', { text: `Long lesson ${'with many words '.repeat(20)}`, score: 2 }),
+    keyPoint('kpt_high', { text: 'High scored lesson', score: 3 }),
+  ];
+
+  const full = renderPlaybook(playbook, { tokenBudget: 0 });
+  assert.deepEqual(full.included.map(kp => kp.name), ['kpt_high', 'kpt_long', 'kpt_low']);
+  assert.doesNotMatch(full.text, /omitted/);
+
+  const cut = renderPlaybook(playbook, { tokenBudget: 70 });
+  assert.deepEqual(cut.included.map(kp => kp.name), ['kpt_high', 'kpt_low']);
+  assert.match(cut.text, /- High scored lesson\n- Low scored lesson\n- \(1 more key point omitted to fit the context budget\)/);
+});
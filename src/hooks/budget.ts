@@ -0,0 +1,85 @@
+import type { KeyPoint, KeyPointCategory } from './common.js';
+
+// Deterministic, offline token estimate: roughly one token per short word or
+// punctuation mark, and one per four characters of longer words.
+export function estimateTokens(text: string): number {
+  const pieces = (text || '').match(/[A-Za-z]+|\d+|[^\sA-Za-z\d]/g);
+  if (!pieces) {
+    return 0;
+  }
+
+  let tokens = 0;
+  for (const piece of pieces) {
+    tokens += piece.length > 4 ? Math.ceil(piece.length / 4) : 1;
+  }
+  return tokens;
+}
+
+// Within one score: what to avoid first, then what works, preferences and
+// project facts; uncategorized key points last
+const CATEGORY_ORDER: KeyPointCategory[] = ['failure', 'pattern', 'preference', 'fact'];
+
+function categoryRank(kp: KeyPoint): number {
+  const rank = CATEGORY_ORDER.indexOf(kp.category as KeyPointCategory);
+  return rank === -1 ? CATEGORY_ORDER.length : rank;
+}
+
+// Undated key points predate created_at, so they count as the oldest
+function createdTime(kp: KeyPoint): number {
+  const time = Date.parse(kp.created_at || '');
+  return isNaN(time) ? 0 : time;
+}
+
+// Last resort that keeps the order stable; digit runs compare by value, so
+// legacy kpt_9 sorts before kpt_10
+function compareNames(a: KeyPoint, b: KeyPoint): number {
+  return (a.name || '').localeCompare(b.name || '', 'en', { numeric: true });
+}
+
+// Oldest first, then by name
+export function compareAge(a: KeyPoint, b: KeyPoint): number {
+  return createdTime(a) - createdTime(b) || compareNames(a, b);
+}
+
+// Highest score first, then by category, then newest first, then by name
+export function compareKeyPoints(a: KeyPoint, b: KeyPoint): number {
+  return (b.score || 0) - (a.score || 0) ||
+         categoryRank(a) - categoryRank(b) ||
+         createdTime(b) - createdTime(a) ||
+         compareNames(a, b);
+}
+
+export interface BudgetResult {
+  included: KeyPoint[];
+  omitted: KeyPoint[];
+}
+
+// Greedily take key points in order while they fit; one that does not fit is
+// skipped and the smaller ones after it are still tried. `reservedTokens`
+// covers the surrounding template and the omission footer.
+export function fitToBudget(
+  keyPoints: KeyPoint[],
+  budget: number,
+  reservedTokens: number,
+  render: (kp: KeyPoint) => string
+): BudgetResult {
+  if (!(budget > 0)) {
+    return { included: keyPoints, omitted: [] };
+  }
+
+  const included: KeyPoint[] = [];
+  const omitted: KeyPoint[] = [];
+  let used = reservedTokens;
+
+  for (const kp of keyPoints) {
+    const cost = estimateTokens(render(kp)) + 1;
+    if (used + cost <= budget) {
+      included.push(kp);
+      used += cost;
+    } else {
+      omitted.push(kp);
+    }
+  }
+
+  return { included, omitted };
+}
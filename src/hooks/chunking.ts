@@ -0,0 +1,106 @@
+import type { ExtractionResult, KeyPointEvaluation, NewKeyPoint } from './common.js';
+import { estimateTokens } from './budget.js';
+import { NEAR_VERBATIM_SIMILARITY, textSimilarity } from './dedupe.js';
+import { getConfig } from './config.js';
+
+export function getWindowTokens(): number {
+  return getConfig().window_tokens;
+}
+
+export function getWindowOverlap(): number {
+  return getConfig().window_overlap;
+}
+
+export function getMaxWindows(): number {
+  return getConfig().max_windows;
+}
+
+// Split messages into windows of at most `windowTokens` estimated tokens, each
+// starting `overlap` messages before the end of the previous one. A message
+// larger than the budget gets a window of its own.
+export function splitIntoWindows<T>(messages: T[], windowTokens: number, overlap: number): T[][] {
+  if (messages.length === 0) {
+    return [];
+  }
+  if (!(windowTokens > 0)) {
+    return [messages];
+  }
+
+  const costs = messages.map(m => estimateTokens(JSON.stringify(m)));
+  const windows: T[][] = [];
+  let start = 0;
+
+  while (start < messages.length) {
+    let end = start;
+    let used = 0;
+    while (end < messages.length && (end === start || used + costs[end] <= windowTokens)) {
+      used += costs[end];
+      end++;
+    }
+
+    windows.push(messages.slice(start, end));
+    if (end >= messages.length) {
+      break;
+    }
+    // Always advance by at least one message
+    start = Math.max(start + 1, end - Math.max(0, overlap));
+  }
+
+  return windows;
+}
+
+// The first windows when there are too many. Only those are marked as
+// processed, so the next run continues where this one stopped.
+export function limitWindows<T>(windows: T[][], maxWindows: number): T[][] {
+  if (!(maxWindows > 0) || windows.length <= maxWindows) {
+    return windows;
+  }
+  return windows.slice(0, maxWindows);
+}
+
+// Worst rating wins: harmful anywhere outweighs helpful, and neutral only
+// stands when no window found the key point relevant
+const RATING_PRIORITY: Record<string, number> = { 'harmful': 3, 'helpful': 2, 'neutral': 1 };
+
+// Results of the windows of one run; failed windows are not passed in
+export function combineExtractionResults(results: ExtractionResult[]): ExtractionResult {
+  // Only near-verbatim repeats are dropped; looser duplicates from different
+  // windows are left to curation, which merges rather than discards them
+  const threshold = NEAR_VERBATIM_SIMILARITY;
+  const newKeyPoints: (string | NewKeyPoint)[] = [];
+  const texts: string[] = [];
+
+  for (const result of results) {
+    for (const item of result.new_key_points || []) {
+      const text = typeof item === 'string' ? item : (item && item.text) || '';
+      if (!text || texts.some(existing => existing === text || textSimilarity(existing, text) >= threshold)) {
+        continue;
+      }
+      texts.push(text);
+      newKeyPoints.push(item);
+    }
+  }
+
+  // The winning rating keeps the evidence cited for it
+  const ratings = new Map<string, KeyPointEvaluation>();
+  for (const result of results) {
+    for (const evalItem of result.evaluations || []) {
+      if (!evalItem || !evalItem.name) continue;
+      const current = ratings.get(evalItem.name);
+      const rating = evalItem.rating || 'neutral';
+      if (!current || (RATING_PRIORITY[rating] || 0) > (RATING_PRIORITY[current.rating] || 0)) {
+        ratings.set(evalItem.name, { ...evalItem, rating });
+      }
+    }
+  }
+
+  const insights = results.flatMap(result => result.insights || []);
+  const source = [...results].reverse().find(result => result.source)?.source;
+
+  return {
+    new_key_points: newKeyPoints,
+    evaluations: [...ratings.values()],
+    insights,
+    ...(source ? { source } : {}),
+  };
+}
@@ -0,0 +1,111 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createKeyPoint } from './common.js';
+import {
+  IMPORTED_TAG,
+  MANAGED_END,
+  MANAGED_START,
+  findManagedSection,
+  parseClaudeMdRules,
+  renderManagedSection,
+  replaceManagedSection,
+  selectExportKeyPoints,
+} from './claude_md.js';
+
+const USER_CONTENT = [
+  '# Project rules',
+  '',
+  '- Use pnpm, never npm',
+  '1. Run `make lint`',
+  '   before every commit',
+  '',
+  '```sh',
+  '- not a rule',
+  '```',
+  '',
+].join('\n');
+
+function section(...texts: string[]): string {
+  return renderManagedSection(texts.map((text, i) => createKeyPoint(`kpt_${i}`, text, { score: 3 })), '.claude/playbook.json');
+}
+
+test('hand-written content survives repeated exports byte for byte', () => {
+  const first = replaceManagedSection(USER_CONTENT, section('Lesson one'));
+  assert.ok(first.startsWith(`${USER_CONTENT.trimEnd()}\n\n${MANAGED_START}`));
+  assert.ok(first.endsWith(`${MANAGED_END}\n`));
+
+  // Text the user adds below the section stays where it is
+  const edited = `${first}\n## Notes\n- Written after the export\n`;
+  const second = replaceManagedSection(edited, section('Lesson two'));
+  assert.equal(second.replace(/<!-- memoria:start -->[\s\S]*<!-- memoria:end -->/, 'SECTION'),
+    edited.replace(/<!-- memoria:start -->[\s\S]*<!-- memoria:end -->/, 'SECTION'));
+  assert.match(second, /- Lesson two/);
+  assert.doesNotMatch(second, /Lesson one/);
+
+  // Exporting the same key points again changes nothing
+  assert.equal(replaceManagedSection(second, section('Lesson two')), second);
+});
+
+test('a missing or empty CLAUDE.md gets just the managed section', () => {
+  assert.equal(replaceManagedSection('', section('Lesson')), `${section('Lesson')}\n`);
+  assert.equal(replaceManagedSection('\n\n', section()), `${section()}\n`);
+  assert.match(section(), /_No key points have scored high enough yet._/);
+  assert.deepEqual(parseClaudeMdRules(''), []);
+});
+
+test('unbalanced or duplicated markers are refused', () => {
+  const malformed = [
+    `${MANAGED_START}\n- Lesson`,
+    `- Lesson\n${MANAGED_END}`,
+    `${MANAGED_END}\n${MANAGED_START}`,
+    `${MANAGED_START}\n${MANAGED_END}\n${MANAGED_START}\n${MANAGED_END}`,
+    `${MANAGED_START}\n${MANAGED_START}\n${MANAGED_END}`,
+  ];
+  for (const content of malformed) {
+    assert.throws(() => findManagedSection(content), /exactly one/, content);
+    assert.throws(() => replaceManagedSection(content, section('Lesson')), /exactly one/, content);
+    assert.throws(() => parseClaudeMdRules(content), /exactly one/, content);
+  }
+  assert.equal(findManagedSection(USER_CONTENT), null);
+});
+
+test('rules are parsed from hand-written lists only', () => {
+  const content = replaceManagedSection(`${USER_CONTENT}- [x] Keep the changelog\n  * Nested rule\n`, section('Exported lesson'));
+  assert.deepEqual(parseClaudeMdRules(content), [
+    'Use pnpm, never npm',
+    'Run `make lint` before every commit',
+    'Keep the changelog',
+    'Nested rule',
+  ]);
+});
+
+test('the export groups key points by category and leaves out imported ones', () => {
+  const keyPoints = [
+    createKeyPoint('kpt_low', 'Low score', { score: 0 }),
+    createKeyPoint('kpt_pinned', 'Pinned', { score: 0, pinned: true }),
+    createKeyPoint('kpt_failure', 'Do not force push', { score: 2, category: 'failure' }),
+    createKeyPoint('kpt_fact', 'The API lives in\n  services/api', { score: 5, category: 'fact' }),
+    createKeyPoint('kpt_imported', 'From CLAUDE.md', { score: 9, tags: [IMPORTED_TAG] }),
+    createKeyPoint('kpt_pending', 'Pending', { score: 9, status: 'pending' }),
+  ];
+  const selected = selectExportKeyPoints(keyPoints, 1);
+  assert.deepEqual(selected.map(kp => kp.name), ['kpt_fact', 'kpt_failure', 'kpt_pinned']);
+
+  const lines = renderManagedSection(selected, '.claude/playbook.json').split('\n');
+  assert.deepEqual(lines.slice(3), [
+    '## Learned Key Points',
+    '',
+    '### Avoid',
+    '',
+    '- Do not force push',
+    '',
+    '### Project facts',
+    '',
+    '- The API lives in services/api',
+    '',
+    '### Other',
+    '',
+    '- Pinned',
+    MANAGED_END,
+  ]);
+});
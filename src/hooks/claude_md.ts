@@ -0,0 +1,149 @@
+import * as path from 'path';
+import type { KeyPoint, KeyPointCategory } from './common.js';
+import { compareKeyPoints } from './budget.js';
+import { isApproved } from './review.js';
+
+// `memoria export` owns the lines between these markers in CLAUDE.md and
+// rewrites them on every run; everything outside is left exactly as it is.
+export const MANAGED_START = '<!-- memoria:start -->';
+export const MANAGED_END = '<!-- memoria:end -->';
+
+// Key points imported from CLAUDE.md carry this tag and are never exported
+// back, since the hand-written rule they came from is still there
+export const IMPORTED_TAG = 'claude-md';
+
+const CATEGORY_HEADINGS: { category: KeyPointCategory | undefined; heading: string }[] = [
+  { category: 'failure', heading: 'Avoid' },
+  { category: 'pattern', heading: 'Patterns that work' },
+  { category: 'preference', heading: 'Preferences' },
+  { category: 'fact', heading: 'Project facts' },
+  { category: undefined, heading: 'Other' },
+];
+
+export interface ManagedSpan {
+  start: number;
+  // Index just past the end marker
+  end: number;
+}
+
+// Project playbooks export to <project>/CLAUDE.md, the global playbook to
+// the user-level ~/.claude/CLAUDE.md
+export function getClaudeMdPath(playbookPath: string, scope: 'global' | 'project'): string {
+  const claudeDir = path.dirname(playbookPath);
+  return scope === 'global' ? path.join(claudeDir, 'CLAUDE.md') : path.join(path.dirname(claudeDir), 'CLAUDE.md');
+}
+
+// Null when there is no managed section yet. Throws when the markers are
+// unbalanced, rather than guessing which hand-written lines to overwrite.
+export function findManagedSection(content: string): ManagedSpan | null {
+  const start = content.indexOf(MANAGED_START);
+  const end = content.indexOf(MANAGED_END);
+  if (start === -1 && end === -1) {
+    return null;
+  }
+  if (start === -1 || end === -1 || end < start ||
+      content.indexOf(MANAGED_START, start + 1) !== -1 || content.indexOf(MANAGED_END, end + 1) !== -1) {
+    throw new Error(`CLAUDE.md must contain exactly one ${MANAGED_START} ... ${MANAGED_END} pair`);
+  }
+  return { start, end: end + MANAGED_END.length };
+}
+
+export function selectExportKeyPoints(keyPoints: KeyPoint[], minScore: number): KeyPoint[] {
+  return keyPoints
+    .filter(kp => !(kp.tags || []).includes(IMPORTED_TAG))
+    .filter(isApproved)
+    .filter(kp => kp.pinned || (kp.score || 0) >= minScore)
+    .sort(compareKeyPoints);
+}
+
+// Markdown for the managed section, markers included
+export function renderManagedSection(keyPoints: KeyPoint[], source: string): string {
+  const lines = [
+    MANAGED_START,
+    `<!-- Generated by \`memoria export\` from ${source}. Edits between these markers are overwritten; -->`,
+    '<!-- change the key points with `memoria` instead, or move a rule above this section to keep it. -->',
+    '## Learned Key Points',
+  ];
+
+  // Uncategorized key points (and unknown categories) go under "Other"
+  const known = new Set(CATEGORY_HEADINGS.map(h => h.category));
+  const categoryOf = (kp: KeyPoint) => (known.has(kp.category) ? kp.category : undefined);
+
+  for (const { category, heading } of CATEGORY_HEADINGS) {
+    const group = keyPoints.filter(kp => categoryOf(kp) === category);
+    if (group.length === 0) continue;
+    lines.push('', `### ${heading}`, '');
+    for (const kp of group) {
+      // Keep multi-line key points inside their bullet
+      lines.push(`- ${kp.text.trim().replace(/\s*\n\s*/g, ' ')}`);
+    }
+  }
+
+  if (keyPoints.length === 0) {
+    lines.push('', '_No key points have scored high enough yet._');
+  }
+  lines.push(MANAGED_END);
+  return lines.join('\n');
+}
+
+// Replace the managed section, or append one when there is none yet
+export function replaceManagedSection(content: string, section: string): string {
+  const span = findManagedSection(content);
+  if (span) {
+    return content.slice(0, span.start) + section + content.slice(span.end);
+  }
+  if (!content.trim()) {
+    return `${section}\n`;
+  }
+  return `${content.replace(/\s*$/, '')}\n\n${section}\n`;
+}
+
+function cleanRule(text: string): string {
+  return text
+    // Task list checkboxes
+    .replace(/^\[[ xX]\]\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Bullet and numbered list items written by hand, outside the managed
+// section and outside code blocks. Indented lines that continue an item are
+// joined to it; nested items become rules of their own.
+export function parseClaudeMdRules(content: string): string[] {
+  const span = findManagedSection(content);
+  const handWritten = span ? content.slice(0, span.start) + content.slice(span.end) : content;
+
+  const rules: string[] = [];
+  let current: string | null = null;
+  let inFence = false;
+
+  const flush = () => {
+    if (current !== null) {
+      const rule = cleanRule(current);
+      if (rule) rules.push(rule);
+      current = null;
+    }
+  };
+
+  for (const line of handWritten.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    const item = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (item) {
+      flush();
+      current = item[1];
+    } else if (current !== null && /^\s+\S/.test(line)) {
+      current += ` ${line.trim()}`;
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return rules;
+}
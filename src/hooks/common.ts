@@ -1,19 +1,47 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import Anthropic from '@anthropic-ai/sdk';
-
-export function getProjectDir(): string {
-  const projectDir = process.env['CLAUDE_PROJECT_DIR'];
-  if (projectDir) {
-    return projectDir;
-  }
-  return os.homedir();
-}
-
-export function getUserClaudeDir(): string {
-  return path.join(os.homedir(), '.claude');
-}
+import * as crypto from 'crypto';
+import { CompletionUsage, LlmProvider, ProviderSettings, createProvider } from './providers.js';
+import { withFileLock, writeFileAtomic } from './lock.js';
+import { HistoryContext, appendHistory, getHistoryPath } from './history.js';
+import { summarizeToolResult, summarizeToolUse, truncateMiddle } from './transcript.js';
+import {
+  combineExtractionResults,
+  getMaxWindows,
+  getWindowOverlap,
+  getWindowTokens,
+  limitWindows,
+  splitIntoWindows,
+} from './chunking.js';
+import { compareKeyPoints, estimateTokens, fitToBudget } from './budget.js';
+import { REFLECTION_SCHEMA, ValidationIssue, buildRepairPrompt, parseReflection } from './validation.js';
+import { PLAYBOOK_VERSION, PlaybookVersionError, migratePlaybook } from './migrations.js';
+import { ScoringPolicy, ratingDelta, resolveScoringPolicy, shouldPrune } from './scoring.js';
+import { KeyPointStatus, RejectedKeyPoint, ReviewPolicy, recordHelpfulSession } from './review.js';
+import { Evidence, ProvenanceRecord, ReflectionSource, addProvenance, offsetEvidence } from './provenance.js';
+import { CallFailedError, CallOutcome, completeWithRetry, getRetryOptions } from './retry.js';
+import { ModelPrice, UsageRecord, appendUsage, getUsageLedgerPath, resolvePrices } from './usage.js';
+import { formatConfigIssue, getConfig, getProjectDir, getUserClaudeDir, resolveConfig } from './config.js';
+import {
+  RedactionPolicy,
+  RedactionReport,
+  buildDetectors,
+  redactText,
+  redactValue,
+  reportTotal,
+  resolveRedactionPolicy,
+} from './redaction.js';
+import {
+  DuplicateCandidate,
+  NEAR_VERBATIM_SIMILARITY,
+  applyMerges,
+  findDuplicateCandidates,
+  getDedupThreshold,
+  textSimilarity,
+} from './dedupe.js';
+
+export { getProjectDir, getUserClaudeDir };
 
 export function isDiagnosticMode(): boolean {
   const flagFile = path.join(getUserClaudeDir(), 'diagnostic_mode');
@@ -39,64 +67,87 @@ export function saveDiagnostic(content: string, name: string): void {
   fs.writeFileSync(filepath, content, 'utf-8');
 }
 
-export function isFirstMessage(sessionId: string): boolean {
-  const sessionFile = path.join(getProjectDir(), '.claude', 'last_session.txt');
+// Sequential kpt_NNN names collided whenever two machines learned something
+// from the same committed playbook. Names are now derived from the text, so
+// the same lesson gets the same name everywhere, with a random fallback on the
+// rare clash. Legacy kpt_NNN names stay valid.
+export function generateKeypointName(existingNames: Set<string>, text?: string): string {
+  if (text) {
+    const normalized = text.trim().toLowerCase().replace(/\s+/g, ' ');
+    const name = `kpt_${crypto.createHash('sha256').update(normalized).digest('hex').slice(0, 8)}`;
+    if (!existingNames.has(name)) {
+      return name;
+    }
+  }
+  for (;;) {
+    const name = `kpt_${crypto.randomBytes(4).toString('hex')}`;
+    if (!existingNames.has(name)) {
+      return name;
+    }
+  }
+}
+
+// Configuration problems are saved once per process; `memoria config` lists them
+let configIssuesReported = false;
 
-  if (fs.existsSync(sessionFile)) {
-    const lastSessionId = fs.readFileSync(sessionFile, 'utf-8').trim();
-    return sessionId !== lastSessionId;
+export function reportConfigIssues(): void {
+  if (configIssuesReported) {
+    return;
   }
+  configIssuesReported = true;
 
-  return true;
+  const { issues } = resolveConfig();
+  if (isDiagnosticMode() && issues.length > 0) {
+    saveDiagnostic(issues.map(formatConfigIssue).join('\n'), 'config_error');
+  }
 }
 
-export function markSession(sessionId: string): void {
-  const sessionFile = path.join(getProjectDir(), '.claude', 'last_session.txt');
-  fs.mkdirSync(path.dirname(sessionFile), { recursive: true });
-  fs.writeFileSync(sessionFile, sessionId, 'utf-8');
+export type KeyPointCategory = 'failure' | 'pattern' | 'preference' | 'fact';
+
+// failure: an approach to avoid; pattern: an approach that works;
+// preference: how the user likes things done; fact: about the project itself
+export const KEY_POINT_CATEGORIES: KeyPointCategory[] = ['failure', 'pattern', 'preference', 'fact'];
+
+export interface RatingCounts {
+  helpful: number;
+  harmful: number;
+  neutral: number;
 }
 
-export function clearSession(): void {
-  const sessionFile = path.join(getProjectDir(), '.claude', 'last_session.txt');
-  if (fs.existsSync(sessionFile)) {
-    fs.unlinkSync(sessionFile);
-  }
+export function loadScoringPolicy(): ScoringPolicy {
+  return resolveScoringPolicy(getConfig().scoring);
 }
 
-export function generateKeypointName(existingNames: Set<string>): string {
-  let maxNum = 0;
-  for (const name of existingNames) {
-    if (name.startsWith('kpt_')) {
-      try {
-        const num = parseInt(name.split('_')[1], 10);
-        if (!isNaN(num)) {
-          maxNum = Math.max(maxNum, num);
-        }
-      } catch (e) {
-        continue;
-      }
-    }
-  }
-  return `kpt_${String(maxNum + 1).padStart(3, '0')}`;
+export function loadReviewPolicy(): ReviewPolicy {
+  const config = getConfig();
+  return { enabled: config.review, approvals: config.review_approvals };
 }
 
-export interface Settings {
-  playbook_update_on_exit: boolean;
-  playbook_update_on_clear: boolean;
+export function loadRedactionPolicy(): RedactionPolicy {
+  return resolveRedactionPolicy(getConfig().redaction);
 }
 
-export function loadSettings(): Settings {
-  const settingsPath = path.join(getUserClaudeDir(), 'settings.json');
+export function loadPrices(): Record<string, ModelPrice> {
+  return resolvePrices(getConfig().prices);
+}
 
-  if (!fs.existsSync(settingsPath)) {
-    return { playbook_update_on_exit: false, playbook_update_on_clear: false };
+// usage_ledger: false stops recording token usage
+function recordUsage(record: UsageRecord): void {
+  if (!getConfig().usage_ledger) {
+    return;
   }
-
   try {
-    const data = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
-    return data;
+    appendUsage(getUsageLedgerPath(getUserClaudeDir()), record);
   } catch (e) {
-    return { playbook_update_on_exit: false, playbook_update_on_clear: false };
+    if (isDiagnosticMode()) {
+      saveDiagnostic(`Could not record usage: ${e}`, 'usage_error');
+    }
+  }
+}
+
+function saveRedactionReport(report: RedactionReport, name: string): void {
+  if (isDiagnosticMode() && reportTotal(report) > 0) {
+    saveDiagnostic(JSON.stringify(report, null, 2), name);
   }
 }
 
@@ -104,96 +155,376 @@ export interface KeyPoint {
   name: string;
   text: string;
   score: number;
+  pinned?: boolean;
+  merged_from?: string[];
+  category?: KeyPointCategory;
+  created_at?: string | null;
+  // Last time a reflection found the key point relevant (helpful or harmful)
+  last_seen?: string | null;
+  ratings?: RatingCounts;
+  // Sessions whose reflection produced the key point
+  sessions?: string[];
+  tags?: string[];
+  // Review mode: pending key points are not injected (see review.ts)
+  status?: KeyPointStatus;
+  // Later sessions that rated a pending key point helpful
+  helpful_sessions?: string[];
+  // Reflections that learned or rated it, with their evidence
+  provenance?: ProvenanceRecord[];
+}
+
+export function createKeyPoint(name: string, text: string, fields: Partial<KeyPoint> = {}): KeyPoint {
+  return {
+    name,
+    text,
+    score: 0,
+    created_at: new Date().toISOString(),
+    last_seen: null,
+    ratings: { helpful: 0, harmful: 0, neutral: 0 },
+    sessions: [],
+    tags: [],
+    ...fields,
+  };
+}
+
+export interface MergeRecord {
+  into: string;
+  from: string;
+  text: string;
+  similarity: number;
+  method: string;
+  merged_at: string;
+}
+
+// A project-scoped lesson seen in several projects; promoted to the global
+// playbook once enough distinct projects have learned it.
+export interface PromotionCandidate {
+  text: string;
+  category?: KeyPointCategory;
+  projects: string[];
+  first_seen: string;
+  last_seen: string;
 }
 
 export interface Playbook {
   version: string;
   last_updated: string | null;
   key_points: KeyPoint[];
+  merges?: MergeRecord[];
+  promotion_candidates?: PromotionCandidate[];
+  rejected?: RejectedKeyPoint[];
 }
 
-export function loadPlaybook(): Playbook {
-  const playbookPath = path.join(getProjectDir(), '.claude', 'playbook.json');
+export type PlaybookScope = 'project' | 'global';
+
+// Global key points are exposed as `global:<name>` in the layered view
+export const GLOBAL_PREFIX = 'global:';
+
+export function getPlaybookPath(scope: PlaybookScope = 'project'): string {
+  const baseDir = scope === 'global' ? os.homedir() : getProjectDir();
+  return path.join(baseDir, '.claude', 'playbook.json');
+}
+
+// Without CLAUDE_PROJECT_DIR the project playbook falls back to the home
+// directory, which is the global playbook itself
+export function hasProjectLayer(): boolean {
+  return path.resolve(getPlaybookPath('project')) !== path.resolve(getPlaybookPath('global'));
+}
+
+export function emptyPlaybook(): Playbook {
+  return { version: PLAYBOOK_VERSION, last_updated: null, key_points: [] };
+}
+
+// Migrate to the current schema version and fill in missing names/scores
+// (e.g. after a hand edit). Throws PlaybookVersionError for newer files.
+export function normalizePlaybook(data: any): Playbook {
+  migratePlaybook(data);
+
+  const keypoints: KeyPoint[] = [];
+  // Reserve the existing names first so generated ones cannot collide
+  const existingNames = new Set<string>(data.key_points.map((item: any) => item && item.name).filter(Boolean));
+
+  for (let item of data.key_points) {
+    if (item && typeof item === 'object') {
+      if (!item.name) {
+        const { name: _unused, ...rest } = item;
+        item = { name: generateKeypointName(existingNames, typeof rest.text === 'string' ? rest.text : undefined), ...rest };
+      }
+      if (!item.score) {
+        item.score = 0;
+      }
+      existingNames.add(item.name);
+      keypoints.push(item);
+    }
+  }
+
+  data.key_points = keypoints;
+  return data as Playbook;
+}
+
+export function loadPlaybook(scope: PlaybookScope = 'project'): Playbook {
+  const playbookPath = getPlaybookPath(scope);
 
   if (!fs.existsSync(playbookPath)) {
-    return { version: '1.0', last_updated: null, key_points: [] };
+    return emptyPlaybook();
   }
 
   try {
-    const data = JSON.parse(fs.readFileSync(playbookPath, 'utf-8'));
+    return normalizePlaybook(JSON.parse(fs.readFileSync(playbookPath, 'utf-8')));
+  } catch (e) {
+    return emptyPlaybook();
+  }
+}
 
-    if (!data.key_points) {
-      data.key_points = [];
-    }
+// Like loadPlaybook(), but throws instead of discarding an unreadable file.
+// Used by tools that write the playbook back, so they never clobber it.
+export function loadPlaybookStrict(scope: PlaybookScope = 'project'): Playbook {
+  return readPlaybookFile(getPlaybookPath(scope));
+}
 
-    const keypoints: KeyPoint[] = [];
-    const existingNames = new Set<string>();
-
-    for (const item of data.key_points) {
-      if (typeof item === 'string') {
-        const name = generateKeypointName(existingNames);
-        keypoints.push({ name, text: item, score: 0 });
-        existingNames.add(name);
-      } else if (typeof item === 'object') {
-        if (!item.name) {
-          item.name = generateKeypointName(existingNames);
-        }
-        if (!item.score) {
-          item.score = 0;
-        }
-        existingNames.add(item.name);
-        keypoints.push(item);
+// Strict read of any playbook file, e.g. the versions handed to a merge driver.
+// A missing or empty file is an empty playbook.
+export function readPlaybookFile(playbookPath: string): Playbook {
+  const content = fs.existsSync(playbookPath) ? fs.readFileSync(playbookPath, 'utf-8') : '';
+  if (!content.trim()) {
+    return emptyPlaybook();
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    throw new Error(`${playbookPath} is not valid JSON: ${(e as Error).message}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${playbookPath} does not contain a playbook object`);
+  }
+  if (data.key_points !== undefined && !Array.isArray(data.key_points)) {
+    throw new Error(`${playbookPath}: key_points must be an array`);
+  }
+  return normalizePlaybook(data);
+}
+
+export function savePlaybook(playbook: Playbook, scope: PlaybookScope = 'project'): void {
+  playbook.last_updated = new Date().toISOString();
+  writeFileAtomic(getPlaybookPath(scope), JSON.stringify(playbook, null, 2));
+}
+
+// Locked read-modify-write of one playbook layer. The playbook is re-read
+// under the lock, so changes from concurrent sessions are kept and `mutate`
+// applies its changes on top of them. An unreadable file is set aside rather
+// than silently replaced. The resulting delta is appended to the history log.
+export async function updatePlaybookFile<T>(
+  scope: PlaybookScope,
+  mutate: (playbook: Playbook) => T | Promise<T>,
+  context: HistoryContext = { trigger: 'unknown' }
+): Promise<T> {
+  const playbookPath = getPlaybookPath(scope);
+
+  return withFileLock(playbookPath, async () => {
+    let playbook: Playbook;
+    try {
+      playbook = loadPlaybookStrict(scope);
+    } catch (e) {
+      if (e instanceof PlaybookVersionError) {
+        throw e;
       }
+      const backupPath = `${playbookPath}.corrupt-${Date.now()}`;
+      fs.renameSync(playbookPath, backupPath);
+      if (isDiagnosticMode()) {
+        saveDiagnostic(`${e}\nMoved unreadable playbook to ${backupPath}`, 'playbook_corrupt');
+      }
+      playbook = emptyPlaybook();
     }
 
-    data.key_points = keypoints;
-    return data as Playbook;
+    const before = JSON.parse(JSON.stringify(playbook.key_points));
+    const result = await mutate(playbook);
+    savePlaybook(playbook, scope);
+    appendHistory(getHistoryPath(playbookPath), before, playbook.key_points, context, loadScoringPolicy());
+    return result;
+  });
+}
 
-  } catch (e) {
-    return { version: '1.0', last_updated: null, key_points: [] };
+// Project key points layered over the global ones. A global key point that
+// duplicates a project key point is hidden, so the project wording wins.
+export function loadLayeredPlaybook(): Playbook {
+  const project = loadPlaybook('project');
+  if (!hasProjectLayer()) {
+    return project;
   }
+
+  const global = loadPlaybook('global');
+  const threshold = getDedupThreshold();
+  const visibleGlobal = global.key_points
+    .filter(g => !project.key_points.some(p => textSimilarity(p.text, g.text) >= threshold))
+    .map(g => ({ ...g, name: `${GLOBAL_PREFIX}${g.name}` }));
+
+  return { ...project, key_points: [...project.key_points, ...visibleGlobal] };
 }
 
-export function savePlaybook(playbook: Playbook): void {
-  playbook.last_updated = new Date().toISOString();
-  const playbookPath = path.join(getProjectDir(), '.claude', 'playbook.json');
+export interface FormatOptions {
+  // Approximate token budget for the rendered playbook (0 = unlimited)
+  tokenBudget?: number;
+}
 
-  fs.mkdirSync(path.dirname(playbookPath), { recursive: true });
-  fs.writeFileSync(playbookPath, JSON.stringify(playbook, null, 2), 'utf-8');
+export function getInjectTokenBudget(): number {
+  return getConfig().inject_token_budget;
 }
 
-export function formatPlaybook(playbook: Playbook): string {
+function formatOmittedFooter(count: number): string {
+  return `- (${count} more key point${count === 1 ? '' : 's'} omitted to fit the context budget)`;
+}
+
+export interface RenderedPlaybook {
+  text: string;
+  // Key points that made it into the text; the rest did not fit the budget
+  included: KeyPoint[];
+}
+
+export function renderPlaybook(playbook: Playbook, options: FormatOptions = {}): RenderedPlaybook {
   const keyPoints = playbook.key_points || [];
   if (keyPoints.length === 0) {
-    return '';
+    return { text: '', included: [] };
   }
 
-  const keyPointsText = keyPoints.map(kp => `- ${kp.text}`).join('\n');
   const template = loadTemplate('playbook.txt');
-  return template.replace('{key_points}', keyPointsText);
+  const ordered = [...keyPoints].sort(compareKeyPoints);
+  const budget = options.tokenBudget ?? getInjectTokenBudget();
+
+  const renderKeyPoint = (kp: KeyPoint) => `- ${kp.text}`;
+  const reserved = estimateTokens(template.replace('{key_points}', '')) +
+                   estimateTokens(formatOmittedFooter(keyPoints.length));
+  const { included, omitted } = fitToBudget(ordered, budget, reserved, renderKeyPoint);
+
+  if (included.length === 0) {
+    return { text: '', included: [] };
+  }
+
+  const lines = included.map(renderKeyPoint);
+  if (omitted.length > 0) {
+    lines.push(formatOmittedFooter(omitted.length));
+  }
+
+  return { text: template.replace('{key_points}', lines.join('\n')), included };
+}
+
+export function formatPlaybook(playbook: Playbook, options: FormatOptions = {}): string {
+  return renderPlaybook(playbook, options).text;
+}
+
+export interface NewKeyPoint {
+  text: string;
+  scope?: PlaybookScope;
+  category?: KeyPointCategory;
+  evidence?: Evidence;
+}
+
+export interface KeyPointEvaluation {
+  name: string;
+  rating: string;
+  evidence?: Evidence;
 }
 
 export interface ExtractionResult {
-  new_key_points: string[];
-  evaluations: { name: string; rating: string }[];
+  new_key_points: (string | NewKeyPoint)[];
+  evaluations: KeyPointEvaluation[];
+  insights?: string[];
+  // Trigger and model of the reflection, recorded as provenance
+  source?: ReflectionSource;
+  // Set when the reflection could not run, so the transcript must not be
+  // marked as processed
+  failed?: boolean;
+  // Set with failed when trying again cannot help: no API key, rejected
+  // credentials or unusable provider settings
+  permanent?: boolean;
+  // Messages reflected on, when max_windows stopped short of all of them
+  reflected?: number;
+}
+
+function newKeyPointText(item: string | NewKeyPoint): string {
+  return typeof item === 'string' ? item : (item && item.text) || '';
+}
+
+function newKeyPointCategory(item: string | NewKeyPoint): KeyPointCategory | undefined {
+  return typeof item === 'object' && item ? item.category : undefined;
 }
 
-export function updatePlaybookData(playbook: Playbook, extractionResult: ExtractionResult): Playbook {
+function newKeyPointEvidence(item: string | NewKeyPoint): Evidence | undefined {
+  return typeof item === 'object' && item ? item.evidence : undefined;
+}
+
+function newKeyPointScope(item: string | NewKeyPoint): PlaybookScope {
+  return typeof item === 'object' && item && item.scope === 'global' ? 'global' : 'project';
+}
+
+function addSession(kp: KeyPoint, sessionId: string | undefined): void {
+  if (sessionId && !(kp.sessions || []).includes(sessionId)) {
+    kp.sessions = [...(kp.sessions || []), sessionId];
+  }
+}
+
+// Rejections block near-verbatim rewordings only: rejecting "Use yarn to
+// install dependencies" must not also block a different lesson worded alike
+function isRejected(playbook: Playbook, text: string): boolean {
+  const threshold = Math.max(NEAR_VERBATIM_SIMILARITY, getDedupThreshold());
+  return (playbook.rejected || []).some(r => textSimilarity(r.text, text) >= threshold);
+}
+
+export function updatePlaybookData(
+  playbook: Playbook,
+  extractionResult: ExtractionResult,
+  sessionId?: string,
+  policy: ScoringPolicy = loadScoringPolicy(),
+  at: Date = new Date(),
+  review: ReviewPolicy = loadReviewPolicy()
+): Playbook {
   const newKeyPoints = extractionResult.new_key_points || [];
   const evaluations = extractionResult.evaluations || [];
+  const now = at.toISOString();
 
   const existingNames = new Set(playbook.key_points.map(kp => kp.name));
-  const existingTexts = new Set(playbook.key_points.map(kp => kp.text));
+  const byText = new Map(playbook.key_points.map(kp => [kp.text, kp]));
+
+  const source = extractionResult.source;
+  const provenance = (event: ProvenanceRecord['event'], evidence: Evidence | undefined): ProvenanceRecord => ({
+    event,
+    at: now,
+    ...(sessionId ? { session_id: sessionId } : {}),
+    ...(source ? { trigger: source.trigger, model: source.model } : {}),
+    ...evidence,
+  });
+
+  for (const item of newKeyPoints) {
+    const text = newKeyPointText(item);
+    if (!text) continue;
+    // Rejected in review; do not let a later session propose it again
+    if (isRejected(playbook, text)) continue;
+
+    const existing = byText.get(text);
+    if (existing) {
+      // Learned again: counts as seen, and this session is another source
+      existing.last_seen = now;
+      addSession(existing, sessionId);
+      addProvenance(existing, provenance('learned', newKeyPointEvidence(item)));
+      continue;
+    }
 
-  for (const text of newKeyPoints) {
-    if (text && !existingTexts.has(text)) {
-      const name = generateKeypointName(existingNames);
-      playbook.key_points.push({ name, text, score: 0 });
-      existingNames.add(name);
+    const name = generateKeypointName(existingNames, text);
+    const kp = createKeyPoint(name, text, { created_at: now, last_seen: now });
+    const category = newKeyPointCategory(item);
+    if (category) {
+      kp.category = category;
     }
+    if (review.enabled) {
+      kp.status = 'pending';
+    }
+    addSession(kp, sessionId);
+    addProvenance(kp, provenance('learned', newKeyPointEvidence(item)));
+    playbook.key_points.push(kp);
+    existingNames.add(name);
+    byText.set(text, kp);
   }
 
-  const ratingDelta: Record<string, number> = { 'helpful': 1, 'harmful': -1, 'neutral': -1 };
   const nameToKp = new Map(playbook.key_points.map(kp => [kp.name, kp]));
 
   for (const evalItem of evaluations) {
@@ -202,37 +533,201 @@ export function updatePlaybookData(playbook: Playbook, extractionResult: Extract
 
     if (nameToKp.has(name)) {
       const kp = nameToKp.get(name)!;
-      kp.score += (ratingDelta[rating] || 0);
+      kp.score += ratingDelta(rating, policy);
+
+      const ratings = kp.ratings || { helpful: 0, harmful: 0, neutral: 0 };
+      if (rating === 'helpful' || rating === 'harmful' || rating === 'neutral') {
+        ratings[rating]++;
+      }
+      kp.ratings = ratings;
+      if (rating === 'helpful' || rating === 'harmful') {
+        kp.last_seen = now;
+        addProvenance(kp, provenance(rating, evalItem.evidence));
+      }
+      if (rating === 'helpful') {
+        recordHelpfulSession(kp, sessionId, review);
+      }
     }
   }
 
-  playbook.key_points = playbook.key_points.filter(kp => (kp.score || 0) > -5);
+  playbook.key_points = playbook.key_points.filter(kp => !shouldPrune(kp, policy, at));
 
   return playbook;
 }
 
-export function loadTranscript(transcriptPath: string): any[] {
-  const conversations: any[] = [];
+// Route new key points by their classified scope and evaluations by the
+// `global:` prefix. With a single layer everything goes to the project side.
+export function splitExtractionResult(extractionResult: ExtractionResult): Record<PlaybookScope, ExtractionResult> {
+  const layered = hasProjectLayer();
+  const source = extractionResult.source;
+  const split: Record<PlaybookScope, ExtractionResult> = {
+    project: { new_key_points: [], evaluations: [], source },
+    global: { new_key_points: [], evaluations: [], source },
+  };
+
+  for (const item of extractionResult.new_key_points || []) {
+    const scope = layered ? newKeyPointScope(item) : 'project';
+    split[scope].new_key_points.push({
+      text: newKeyPointText(item),
+      category: newKeyPointCategory(item),
+      evidence: newKeyPointEvidence(item),
+    });
+  }
 
+  for (const evalItem of extractionResult.evaluations || []) {
+    const name = evalItem.name || '';
+    if (name.startsWith(GLOBAL_PREFIX)) {
+      if (layered) {
+        split.global.evaluations.push({ ...evalItem, name: name.slice(GLOBAL_PREFIX.length) });
+      }
+    } else {
+      split.project.evaluations.push(evalItem);
+    }
+  }
+
+  return split;
+}
+
+export function getPromotionThreshold(): number {
+  return getConfig().promotion_projects;
+}
+
+// Record that `projectDir` learned these project-scoped lessons. Lessons seen
+// in enough distinct projects become global key points, pending review like
+// any other new key point when review mode is on; returns their names.
+export function recordProjectSightings(
+  global: Playbook,
+  learned: KeyPoint[],
+  projectDir: string,
+  review: ReviewPolicy = loadReviewPolicy()
+): string[] {
+  const candidates = global.promotion_candidates || [];
+  const threshold = getDedupThreshold();
+  const now = new Date().toISOString();
+  const promoted: string[] = [];
+
+  for (const { text, category } of learned) {
+    if (global.key_points.some(kp => textSimilarity(kp.text, text) >= threshold)) {
+      continue;
+    }
+    if (isRejected(global, text)) {
+      continue;
+    }
+
+    let candidate = candidates.find(c => textSimilarity(c.text, text) >= threshold);
+    if (!candidate) {
+      candidate = { text, projects: [], first_seen: now, last_seen: now };
+      if (category) {
+        candidate.category = category;
+      }
+      candidates.push(candidate);
+    }
+    if (!candidate.projects.includes(projectDir)) {
+      candidate.projects.push(projectDir);
+    }
+    candidate.last_seen = now;
+
+    if (candidate.projects.length >= getPromotionThreshold()) {
+      const name = generateKeypointName(new Set(global.key_points.map(kp => kp.name)), candidate.text);
+      const kp = createKeyPoint(name, candidate.text, { created_at: candidate.first_seen, last_seen: now });
+      if (candidate.category) {
+        kp.category = candidate.category;
+      }
+      if (review.enabled) {
+        kp.status = 'pending';
+      }
+      global.key_points.push(kp);
+      candidates.splice(candidates.indexOf(candidate), 1);
+      promoted.push(name);
+    }
+  }
+
+  global.promotion_candidates = candidates;
+  return promoted;
+}
+
+// Mask secrets in new key points before they can be written to playbook.json
+export function redactExtractionResult(extractionResult: ExtractionResult, report: RedactionReport): ExtractionResult {
+  const detectors = buildDetectors(loadRedactionPolicy(), report);
+  const redactEvidence = (evidence: Evidence | undefined) =>
+    evidence && evidence.quote ? { ...evidence, quote: redactText(evidence.quote, detectors, report) } : evidence;
+  return {
+    ...extractionResult,
+    new_key_points: (extractionResult.new_key_points || []).map(item =>
+      typeof item === 'string'
+        ? redactText(item, detectors, report)
+        : { ...item, text: redactText(newKeyPointText(item), detectors, report), evidence: redactEvidence(item.evidence) }
+    ),
+    evaluations: (extractionResult.evaluations || []).map(item => ({ ...item, evidence: redactEvidence(item.evidence) })),
+  };
+}
+
+// Apply a reflection result to both playbook layers and persist them. Runs
+// after the (slow) LLM call, against freshly re-read playbooks.
+export async function applyExtractionResult(extractionResult: ExtractionResult, context: HistoryContext): Promise<void> {
+  const report: RedactionReport = {};
+  const split = splitExtractionResult(redactExtractionResult(extractionResult, report));
+  saveRedactionReport(report, 'redaction_key_points');
+
+  const added = await updatePlaybookFile('project', (playbook) => {
+    const before = new Set(playbook.key_points.map(kp => kp.name));
+    updatePlaybookData(playbook, split.project, context.session_id);
+    return playbook.key_points.filter(kp => !before.has(kp.name));
+  }, context);
+  await curatePlaybookFile('project', context);
+
+  if (!hasProjectLayer()) {
+    return;
+  }
+
+  const promoted = await updatePlaybookFile('global', (global) => {
+    updatePlaybookData(global, split.global, context.session_id);
+    return recordProjectSightings(global, added, path.resolve(getProjectDir()));
+  }, context);
+  await curatePlaybookFile('global', context);
+
+  if (isDiagnosticMode() && promoted.length > 0) {
+    saveDiagnostic(`Promoted to global playbook: ${promoted.join(', ')}`, 'promotion');
+  }
+}
+
+export function loadTranscript(transcriptPath: string): any[] {
   if (!transcriptPath || typeof transcriptPath !== 'string') {
-    return conversations;
+    return [];
   }
 
   try {
     if (!fs.existsSync(transcriptPath)) {
-      return conversations;
+      return [];
     }
 
     const fileContent = fs.readFileSync(transcriptPath, 'utf-8');
-    const lines = fileContent.split('\n');
+    const report: RedactionReport = {};
+    const messages = redactValue(
+      parseTranscriptLines(fileContent.split('\n'), 0),
+      buildDetectors(loadRedactionPolicy(), report),
+      report
+    );
+    saveRedactionReport(report, 'redaction_transcript');
+    return messages;
+  } catch (e) {
+    return [];
+  }
+}
+
+// Convert transcript JSONL lines into {role, content} messages, emitting only
+// lines from `startLine` on. Earlier lines are still scanned so tool results
+// can be matched to tool calls made before `startLine`. `lineIndices`, if
+// given, receives the index of the line each message came from.
+export function parseTranscriptLines(lines: string[], startLine: number, lineIndices?: number[]): any[] {
+  const conversations: any[] = [];
 
-    const maxMessages = parseInt(process.env['AGENTIC_CONTEXT_MAX_MESSAGES'] || '100', 10);
-    let count = 0;
+  try {
+    const includeTools = getConfig().include_tools;
+    const toolNames = new Map<string, string>();
 
-    for (const line of lines) {
-      if (count >= maxMessages) {
-        break;
-      }
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
       if (!line.trim()) continue;
 
       try {
@@ -257,18 +752,27 @@ export function loadTranscript(transcriptPath: string): any[] {
         if (Array.isArray(content)) {
           const textParts: string[] = [];
           for (const item of content) {
-            if (item && typeof item === 'object' && item.type === 'text' && typeof item.text === 'string') {
+            if (!item || typeof item !== 'object') continue;
+
+            if (item.type === 'text' && typeof item.text === 'string') {
               textParts.push(item.text);
+            } else if (includeTools && item.type === 'tool_use' && typeof item.name === 'string') {
+              toolNames.set(item.id, item.name);
+              if (i < startLine) continue;
+              textParts.push(summarizeToolUse(item.name, item.input));
+            } else if (includeTools && item.type === 'tool_result') {
+              const toolName = toolNames.get(item.tool_use_id) || 'unknown';
+              textParts.push(summarizeToolResult(toolName, item.content, Boolean(item.is_error)));
             }
           }
 
-          if (textParts.length > 0) {
+          if (textParts.length > 0 && i >= startLine) {
             conversations.push({ role, content: textParts.join('\n') });
-            count++;
+            lineIndices?.push(i);
           }
-        } else if (typeof content === 'string') {
+        } else if (typeof content === 'string' && i >= startLine) {
           conversations.push({ role, content });
-          count++;
+          lineIndices?.push(i);
         }
 
       } catch (e) {
@@ -282,6 +786,134 @@ export function loadTranscript(transcriptPath: string): any[] {
   return conversations;
 }
 
+export interface TranscriptCursor {
+  // Number of complete JSONL lines already reflected on
+  line: number;
+  // uuid of the last of those lines, to detect a rewritten transcript
+  uuid: string | null;
+}
+
+export interface TranscriptProgress extends TranscriptCursor {
+  session_id?: string;
+  summary: string;
+  updated_at: string;
+}
+
+export interface TranscriptIncrement {
+  messages: any[];
+  cursor: TranscriptCursor;
+  // Where to stop instead when only messages[0..i] were reflected on
+  messageCursors: TranscriptCursor[];
+  priorContext: string;
+}
+
+export function getTranscriptProgressPath(): string {
+  return path.join(getProjectDir(), '.claude', 'transcript_progress.json');
+}
+
+function loadTranscriptProgressStore(): Record<string, TranscriptProgress> {
+  try {
+    return JSON.parse(fs.readFileSync(getTranscriptProgressPath(), 'utf-8'));
+  } catch (e) {
+    return {};
+  }
+}
+
+function lineUuid(line: string | undefined): string | null {
+  try {
+    const entry = JSON.parse(line || '');
+    return entry && typeof entry.uuid === 'string' ? entry.uuid : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+// Load only the part of a transcript that has not been reflected on yet, with
+// a short summary of what came before
+export function loadTranscriptIncrement(transcriptPath: string): TranscriptIncrement {
+  const empty = { messages: [], cursor: { line: 0, uuid: null }, messageCursors: [], priorContext: '' };
+  if (!transcriptPath || typeof transcriptPath !== 'string' || !fs.existsSync(transcriptPath)) {
+    return empty;
+  }
+
+  let fileContent: string;
+  try {
+    fileContent = fs.readFileSync(transcriptPath, 'utf-8');
+  } catch (e) {
+    return empty;
+  }
+
+  // A trailing line without a newline may still be being written
+  const lines = fileContent.split('\n');
+  const complete = lines.slice(0, lines.length - 1);
+
+  let startLine = 0;
+  let priorContext = '';
+  const progress = loadTranscriptProgressStore()[path.resolve(transcriptPath)];
+  if (progress && progress.line <= complete.length && lineUuid(complete[progress.line - 1]) === progress.uuid) {
+    startLine = progress.line;
+    priorContext = progress.summary || '';
+  }
+
+  const cursor = { line: complete.length, uuid: lineUuid(complete[complete.length - 1]) };
+
+  // Everything read from the transcript is redacted before it can reach the
+  // LLM, including the summary stored by earlier runs
+  const report: RedactionReport = {};
+  const detectors = buildDetectors(loadRedactionPolicy(), report);
+  const lineIndices: number[] = [];
+  const messages = redactValue(parseTranscriptLines(complete, startLine, lineIndices), detectors, report);
+  priorContext = redactText(priorContext, detectors, report);
+  saveRedactionReport(report, 'redaction_transcript');
+
+  const messageCursors = lineIndices.map(i => ({ line: i + 1, uuid: lineUuid(complete[i]) }));
+  return { messages, cursor, messageCursors, priorContext };
+}
+
+function summarizePriorContext(messages: any[], result: ExtractionResult): string {
+  const parts: string[] = [];
+  const insights = (result.insights || []).slice(-5);
+  if (insights.length > 0) {
+    parts.push(`Insights so far:\n${insights.map(i => `- ${i}`).join('\n')}`);
+  }
+
+  const recent = messages.slice(-3).map(m => `${m.role}: ${truncateMiddle(String(m.content), 300)}`);
+  if (recent.length > 0) {
+    parts.push(`Last messages before this part:\n${recent.join('\n')}`);
+  }
+  return parts.join('\n\n');
+}
+
+// Remember how far a transcript has been reflected on. Entries untouched for
+// 30 days are dropped.
+export async function markTranscriptProcessed(
+  transcriptPath: string,
+  cursor: TranscriptCursor,
+  messages: any[],
+  result: ExtractionResult,
+  sessionId?: string
+): Promise<void> {
+  const progressPath = getTranscriptProgressPath();
+  const maxAge = 30 * 24 * 60 * 60 * 1000;
+
+  await withFileLock(progressPath, () => {
+    const store = loadTranscriptProgressStore();
+    for (const [key, entry] of Object.entries(store)) {
+      if (Date.now() - Date.parse(entry.updated_at) > maxAge) {
+        delete store[key];
+      }
+    }
+
+    store[path.resolve(transcriptPath)] = {
+      ...cursor,
+      session_id: sessionId,
+      summary: summarizePriorContext(messages, result),
+      updated_at: new Date().toISOString(),
+    };
+    writeFileAtomic(progressPath, JSON.stringify(store, null, 2));
+  });
+}
+
 export function loadTemplate(templateName: string): string {
   const templatePath = path.join(getUserClaudeDir(), 'prompts', templateName);
   try {
@@ -291,35 +923,84 @@ export function loadTemplate(templateName: string): string {
   }
 }
 
+export type ApiSettings = ProviderSettings;
+
+// Environment variables the API key is read from, in order of precedence
+export function getApiKeyVariables(provider: string): string[] {
+  if (provider === 'openai') {
+    return ['AGENTIC_CONTEXT_API_KEY', 'OPENAI_API_KEY'];
+  }
+  if (provider === 'anthropic') {
+    return ['AGENTIC_CONTEXT_API_KEY', 'ANTHROPIC_AUTH_TOKEN', 'ANTHROPIC_API_KEY'];
+  }
+  return ['AGENTIC_CONTEXT_API_KEY'];
+}
+
+export function formatApiKeyVariables(provider: string): string {
+  const names = getApiKeyVariables(provider);
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}` : names[0];
+}
+
+// Model and base URL come from the configuration; API keys only ever from
+// the environment, so they never end up in a committed memoria.json
+export function getApiSettings(): ApiSettings {
+  const config = getConfig();
+  const provider = config.provider;
+  const apiKey = getApiKeyVariables(provider).map(name => process.env[name]).find(Boolean);
+
+  if (provider === 'openai') {
+    return {
+      provider,
+      apiKey,
+      model: config.model || 'gpt-4o-mini',
+      baseUrl: config.base_url || process.env['OPENAI_BASE_URL'],
+      scriptFile: config.script_file,
+    };
+  }
+
+  const model = config.model ||
+                process.env['ANTHROPIC_MODEL'] ||
+                process.env['ANTHROPIC_DEFAULT_SONNET_MODEL'] ||
+                'claude-sonnet-4-5-20250929';
+
+  const baseUrl = config.base_url || process.env['ANTHROPIC_BASE_URL'];
+
+  return { provider, apiKey, model, baseUrl, scriptFile: config.script_file };
+}
+
 export async function extractKeypoints(
   messages: any[],
   playbook: Playbook,
-  diagnosticName: string = 'reflection'
+  diagnosticName: string = 'reflection',
+  priorContext: string = '',
+  trigger: string = diagnosticName
 ): Promise<ExtractionResult> {
-  // Check for Anthropic API key/setup
-  const apiKey = process.env['AGENTIC_CONTEXT_API_KEY'] ||
-                 process.env['ANTHROPIC_AUTH_TOKEN'] ||
-                 process.env['ANTHROPIC_API_KEY'];
-
-  if (!apiKey) {
+  const settings = getApiSettings();
+  let provider: LlmProvider | null;
+  try {
+    provider = createProvider(settings);
+  } catch (e) {
     if (isDiagnosticMode()) {
-      saveDiagnostic('Missing API Key (AGENTIC_CONTEXT_API_KEY, ANTHROPIC_AUTH_TOKEN, or ANTHROPIC_API_KEY). Extraction skipped.', `${diagnosticName}_error`);
+      saveDiagnostic(`Cannot create ${settings.provider} provider: ${e}`, `${diagnosticName}_error`);
     }
-    return { new_key_points: [], evaluations: [] };
+    return { new_key_points: [], evaluations: [], failed: true, permanent: true };
   }
 
-  const model = process.env['AGENTIC_CONTEXT_MODEL'] ||
-                process.env['ANTHROPIC_MODEL'] ||
-                process.env['ANTHROPIC_DEFAULT_SONNET_MODEL'] ||
-                'claude-sonnet-4-5-20250929';
-
-  const baseUrl = process.env['AGENTIC_CONTEXT_BASE_URL'] || process.env['ANTHROPIC_BASE_URL'];
+  if (!provider) {
+    if (isDiagnosticMode()) {
+      saveDiagnostic(`Missing API key for the ${settings.provider} provider (${formatApiKeyVariables(settings.provider)}). Extraction skipped.`, `${diagnosticName}_error`);
+    }
+    return { new_key_points: [], evaluations: [], failed: true, permanent: true };
+  }
 
-  // Extended Thinking budget (default: 16000 tokens, set to 0 to disable)
-  const thinkingBudget = parseInt(process.env['AGENTIC_CONTEXT_THINKING_BUDGET'] || '16000', 10);
+  // Extended Thinking budget (default: 16000 tokens, set to 0 to disable);
+  // silently dropped for providers without thinking support
+  const config = getConfig();
+  const requestedThinkingBudget = config.thinking_budget;
+  const thinkingBudget = provider.supportsThinking ? requestedThinkingBudget : 0;
 
   // Multi-round reflection (default: 1 for backward compatibility)
-  const maxRounds = parseInt(process.env['AGENTIC_CONTEXT_MAX_ROUNDS'] || '1', 10);
+  const maxRounds = config.max_rounds;
   const minRounds = Math.max(1, maxRounds);
 
   const template = loadTemplate('reflection.txt');
@@ -331,112 +1012,127 @@ export async function extractKeypoints(
     });
   }
 
-  // Prompt caching: enable by default, disable with "false" string
-  const useCache = process.env['AGENTIC_CONTEXT_USE_CACHE'] !== 'false';
-
-  // Helper: Build API parameters with optional features
-  function buildApiParams(prompt: string, includePlaybookInSystem: boolean): any {
-    const apiParams: any = {
-      model: model,
-      max_tokens: 4096,
-      messages: [{ role: 'user', content: prompt }],
-    };
-
-    // Add system messages with caching when enabled
-    if (includePlaybookInSystem && useCache) {
-      const playbookText = JSON.stringify(playbookDict, null, 2);
-      apiParams.system = [{
-        type: 'text',
-        text: `# Current Playbook\n${playbookText}\n\nAnalyze the following reasoning trajectories in context of this playbook.`,
-        cache_control: { type: 'ephemeral' }
-      }];
-    }
-
-    // Add extended thinking if budget > 0
-    if (thinkingBudget > 0) {
-      apiParams.thinking = {
-        type: 'enabled',
-        budget_tokens: thinkingBudget,
-      };
-    }
-
-    return apiParams;
-  }
-
-  // Helper: Parse reflection response
-  function parseReflectionResponse(response: any): any {
-    const responseTextParts = response.content
-      .filter((block: any) => block.type === 'text')
-      .map((block: any) => block.text);
-
-    const responseText = responseTextParts.join('');
-
-    if (!responseText) {
-      return { new_key_points: [], evaluations: [] };
-    }
-
-    let jsonText = responseText.trim();
-    // Extract JSON from code blocks
-    if (jsonText.includes('```json')) {
-      const start = jsonText.indexOf('```json') + 7;
-      const end = jsonText.indexOf('```', start);
-      if (end !== -1) {
-        jsonText = jsonText.substring(start, end).trim();
-      }
-    } else if (jsonText.includes('```')) {
-      const start = jsonText.indexOf('```') + 3;
-      const end = jsonText.indexOf('```', start);
-      if (end !== -1) {
-        jsonText = jsonText.substring(start, end).trim();
-      }
-    }
-
-    try {
-      return JSON.parse(jsonText);
-    } catch (e) {
-      return { new_key_points: [], evaluations: [] };
-    }
-  }
+  // Prompt caching: enabled by default, disable with use_cache: false
+  const useCache = config.use_cache && provider.supportsCaching;
+
+  // The playbook goes into the system message (cached when supported), unless
+  // a custom template places it with a {playbook} placeholder and caching is off
+  const playbookText = JSON.stringify(playbookDict, null, 2);
+  const inlinePlaybook = !useCache && template.includes('{playbook}');
+  const systemText = inlinePlaybook
+    ? undefined
+    : `# Current Playbook\n${playbookText}\n\nAnalyze the following reasoning trajectories in context of this playbook.`;
+
+  // Structured output (tool use / response_format) where the provider has
+  // it; disable with structured_output: false for servers that reject it
+  const responseSchema = config.structured_output && provider.supportsStructuredOutput
+    ? { name: 'record_reflection', schema: REFLECTION_SCHEMA }
+    : undefined;
+
+  // Re-ask the model with the validation errors when its response is unusable
+  const repairAttempts = config.repair_attempts;
+  const knownNames = new Set(Object.keys(playbookDict));
+
+  // Retries, timeouts and fallback models for every call below
+  const retryOptions = getRetryOptions();
+  const callOutcomes: CallOutcome[] = [];
+  let activeModel = settings.model;
+
+  // Token usage over all rounds and repairs, for the usage ledger
+  const startedAt = Date.now();
+  const usage: CompletionUsage = { input_tokens: 0, output_tokens: 0, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 };
+  const addUsage = (callUsage: CompletionUsage) => {
+    usage.input_tokens += callUsage.input_tokens;
+    usage.output_tokens += callUsage.output_tokens;
+    usage.cache_read_input_tokens += callUsage.cache_read_input_tokens;
+    usage.cache_creation_input_tokens += callUsage.cache_creation_input_tokens;
+  };
+  let roundsRun = 0;
+  const providerName = provider.name;
+  const finishUsage = (failed: boolean) => recordUsage({
+    timestamp: new Date().toISOString(),
+    project: path.resolve(getProjectDir()),
+    trigger,
+    provider: providerName,
+    model: activeModel,
+    thinking_budget: thinkingBudget,
+    rounds: roundsRun,
+    calls: callOutcomes.filter(outcome => outcome.ok).length,
+    duration_ms: Date.now() - startedAt,
+    failed,
+    ...usage,
+  });
 
   // Multi-round reflection loop
   let previousInsights: string[] = [];
   let finalResult: ExtractionResult = { new_key_points: [], evaluations: [] };
 
   for (let round = 0; round < minRounds; round++) {
+    roundsRun = round + 1;
+
     // Build round-specific prompt
     let roundPrompt = template;
 
     // Handle template placeholders
-    if (useCache) {
-      // Remove {playbook} placeholder (handled in system message)
-      roundPrompt = roundPrompt.split('{playbook}').join('');
-    } else {
-      // Include playbook in prompt when not caching
-      roundPrompt = roundPrompt.split('{playbook}').join(JSON.stringify(playbookDict, null, 2));
-    }
+    roundPrompt = roundPrompt.split('{playbook}').join(inlinePlaybook ? playbookText : '');
 
     // Replace trajectories placeholder
     roundPrompt = roundPrompt.split('{trajectories}').join(JSON.stringify(messages, null, 2));
 
+    // Summarize the part of the session that was already reflected on
+    if (priorContext) {
+      roundPrompt += `\n\n# Prior Context\nThe earlier part of this session was already analyzed. Use this summary for context only; do not extract key points from it or re-evaluate key points based on it.\n${priorContext}\n`;
+    }
+
     // Add previous round insights if not first round
     if (round > 0 && previousInsights.length > 0) {
       roundPrompt += `\n\n# Previous Round Insights\n${previousInsights.join('\n')}\n\nBased on the previous insights, refine your analysis. Look for:\n- Deeper causal relationships\n- Patterns you may have missed\n- Contradictions in your earlier analysis\n`;
     }
 
     try {
-      const client = new Anthropic({
-        apiKey: apiKey,
-        baseURL: baseUrl, // SDK uses baseURL not base_url
-      });
-
-      // Build API parameters (playbook in system only for first round or when caching)
-      const includePlaybookInSystem = (round === 0) || useCache;
-      const apiParams = buildApiParams(roundPrompt, includePlaybookInSystem);
+      const { response, outcome } = await completeWithRetry(provider, {
+        model: activeModel,
+        prompt: roundPrompt,
+        system: systemText,
+        cacheSystem: useCache,
+        maxTokens: 4096,
+        thinkingBudget,
+        responseSchema,
+      }, retryOptions);
+      callOutcomes.push(outcome);
+      addUsage(response.usage);
+      // Stay on a fallback model once the primary one has failed
+      activeModel = outcome.model || activeModel;
+
+      // Parse and validate the response, repairing it if needed
+      let responseText = response.text;
+      let report = parseReflection(responseText, knownNames);
+      const validationLog: { attempt: number; issues: ValidationIssue[] }[] = [{ attempt: 0, issues: report.issues }];
+
+      for (let attempt = 1; report.fatal && attempt <= repairAttempts; attempt++) {
+        const repaired = await completeWithRetry(provider, {
+          model: activeModel,
+          prompt: buildRepairPrompt(roundPrompt, responseText, report.issues),
+          system: systemText,
+          cacheSystem: useCache,
+          maxTokens: 4096,
+          responseSchema,
+        }, retryOptions);
+        callOutcomes.push(repaired.outcome);
+        addUsage(repaired.response.usage);
+        responseText = repaired.response.text;
+        report = parseReflection(responseText, knownNames);
+        validationLog.push({ attempt, issues: report.issues });
+      }
 
-      const response = await client.messages.create(apiParams);
+      if (isDiagnosticMode() && validationLog.some(entry => entry.issues.length > 0)) {
+        saveDiagnostic(JSON.stringify({ round: round + 1, fatal: report.fatal, attempts: validationLog }, null, 2), `${diagnosticName}_validation`);
+      }
+      if (report.fatal) {
+        throw new Error(`Unusable reflection response: ${report.issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`);
+      }
 
-      // Parse response
-      const result = parseReflectionResponse(response);
+      const result = report.output;
 
       // Check for convergence
       const converged = result.found_root_cause ||
@@ -450,16 +1146,20 @@ export async function extractKeypoints(
 
       // Update final result (last round takes precedence for structured output)
       finalResult = {
-        new_key_points: result.new_key_points || finalResult.new_key_points,
-        evaluations: result.evaluations || finalResult.evaluations,
+        new_key_points: result.new_key_points,
+        evaluations: result.evaluations,
+        insights: previousInsights,
       };
 
       // Diagnostic output
       if (isDiagnosticMode()) {
-        let diagnosticContent = `# ROUND ${round + 1}/${minRounds}\n`;
-        if (useCache && includePlaybookInSystem) {
+        let diagnosticContent = `# ROUND ${round + 1}/${minRounds} (${provider.name}, ${response.model})\n`;
+        if (useCache) {
           diagnosticContent += `(Playbook cached in system message)\n`;
         }
+        if (requestedThinkingBudget > 0 && thinkingBudget === 0) {
+          diagnosticContent += `(Extended thinking not supported by ${provider.name}; disabled)\n`;
+        }
         diagnosticContent += `# USER PROMPT\n${roundPrompt}\n\n${'='.repeat(80)}\n\n# RESPONSE\n${JSON.stringify(result, null, 2)}\n`;
         saveDiagnostic(diagnosticContent, diagnosticName);
       }
@@ -473,17 +1173,202 @@ export async function extractKeypoints(
       }
 
     } catch (e) {
+      if (e instanceof CallFailedError) {
+        callOutcomes.push(e.outcome);
+      }
       // On error, log and continue with next round or return what we have
       if (isDiagnosticMode()) {
         saveDiagnostic(`Error in round ${round + 1}: ${e}`, `${diagnosticName}_error`);
       }
       // If first round fails, return empty; otherwise continue with accumulated results
       if (round === 0) {
-        return { new_key_points: [], evaluations: [] };
+        saveCallOutcomes(callOutcomes, diagnosticName);
+        finishUsage(true);
+        const permanent = e instanceof CallFailedError && e.outcome.attempts.some(attempt => attempt.kind === 'auth');
+        return { new_key_points: [], evaluations: [], failed: true, ...(permanent ? { permanent } : {}) };
+      }
+      break;
+    }
+  }
+
+  saveCallOutcomes(callOutcomes, diagnosticName);
+  finishUsage(false);
+  return { ...finalResult, source: { trigger, model: activeModel } };
+}
+
+// Report every call that needed a retry or a fallback model, or failed
+function saveCallOutcomes(outcomes: CallOutcome[], diagnosticName: string): void {
+  const eventful = outcomes.filter(outcome => !outcome.ok || outcome.attempts.length > 1);
+  if (isDiagnosticMode() && eventful.length > 0) {
+    saveDiagnostic(JSON.stringify(eventful, null, 2), `${diagnosticName}_calls`);
+  }
+}
+
+// Ask the model which locally detected near-duplicate pairs really say the same
+// thing. Any failure counts as "not confirmed" so nothing is merged by mistake.
+export async function confirmDuplicatesWithLlm(candidates: DuplicateCandidate[]): Promise<DuplicateCandidate[]> {
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const pairs = candidates.map((c, i) => `${i + 1}. A: ${c.keep.text}\n   B: ${c.fold.text}`).join('\n');
+  const prompt = `For each numbered pair of playbook key points, decide whether A and B give the same guidance (B adds nothing that A lacks).\n\n${pairs}\n\nRespond with only a JSON array of booleans, one per pair, in order.`;
+
+  try {
+    const settings = getApiSettings();
+    const provider = createProvider(settings);
+    if (!provider) {
+      return [];
+    }
+    const { response } = await completeWithRetry(provider, { model: settings.model, prompt, maxTokens: 1024 });
+    const text = response.text;
+    const start = text.indexOf('[');
+    const end = text.lastIndexOf(']');
+    const verdicts = JSON.parse(text.substring(start, end + 1));
+
+    if (isDiagnosticMode()) {
+      saveDiagnostic(`# PROMPT\n${prompt}\n\n# RESPONSE\n${text}\n`, 'dedupe_confirmation');
+    }
+
+    return candidates.filter((_, i) => verdicts[i] === true);
+  } catch (e) {
+    if (isDiagnosticMode()) {
+      saveDiagnostic(`Duplicate confirmation failed: ${e}`, 'dedupe_confirmation_error');
+    }
+    return [];
+  }
+}
+
+function mergeDuplicates(playbook: Playbook, candidates: DuplicateCandidate[], method: string): MergeRecord[] {
+  const records = applyMerges(playbook, candidates, method);
+  if (isDiagnosticMode() && records.length > 0) {
+    saveDiagnostic(JSON.stringify(records, null, 2), 'dedupe_merges');
+  }
+  return records;
+}
+
+// Merge near-duplicate key points of a playbook file that other sessions may
+// be updating. With AGENTIC_CONTEXT_DEDUP_LLM=true the model confirms the
+// candidates without the lock held; under it, only the confirmed pairs that
+// are still candidates in the re-read playbook are merged.
+export async function curatePlaybookFile(
+  scope: PlaybookScope,
+  context: HistoryContext,
+  dryRun: boolean = false
+): Promise<MergeRecord[]> {
+  const threshold = getDedupThreshold();
+  let candidates = findDuplicateCandidates(loadPlaybookStrict(scope).key_points, threshold);
+  const useLlm = candidates.length > 0 && getConfig().dedup_llm;
+  const method = useLlm ? 'similarity+llm' : 'similarity';
+  if (useLlm) {
+    candidates = await confirmDuplicatesWithLlm(candidates);
+  }
+
+  if (dryRun) {
+    return candidates.map(c => ({
+      into: c.keep.name,
+      from: c.fold.name,
+      text: c.fold.text,
+      similarity: Math.round(c.similarity * 1000) / 1000,
+      method,
+      merged_at: '',
+    }));
+  }
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const sameKeyPoint = (a: KeyPoint, b: KeyPoint) => a.name === b.name && a.text === b.text;
+  return updatePlaybookFile(scope, (playbook) => {
+    const current = findDuplicateCandidates(playbook.key_points, threshold)
+      .filter(c => !useLlm || candidates.some(d => sameKeyPoint(c.keep, d.keep) && sameKeyPoint(c.fold, d.fold)));
+    return mergeDuplicates(playbook, current, method);
+  }, context);
+}
+
+// partial: more messages are left than max_windows allowed for one run;
+// failed_permanently: a retry would fail the same way (see ExtractionResult)
+export type ReflectionOutcome = 'applied' | 'partial' | 'nothing_new' | 'failed' | 'failed_permanently';
+
+// The full reflection pass for one trigger: reflect on the part of the
+// transcript not processed yet, apply the result to the playbooks and advance
+// the progress marker past the messages reflected on. A failed reflection
+// leaves the messages unprocessed.
+export async function runReflection(transcriptPath: string, trigger: string, sessionId?: string): Promise<ReflectionOutcome> {
+  reportConfigIssues();
+
+  const { messages, cursor, messageCursors, priorContext } = loadTranscriptIncrement(transcriptPath);
+  if (!messages || messages.length === 0) {
+    return 'nothing_new';
+  }
+
+  const playbook = loadLayeredPlaybook();
+  const extractionResult = await reflectOnTranscript(messages, playbook, trigger, priorContext);
+  if (extractionResult.failed) {
+    return extractionResult.permanent ? 'failed_permanently' : 'failed';
+  }
+
+  await applyExtractionResult(extractionResult, { trigger, session_id: sessionId });
+
+  const reflected = extractionResult.reflected ?? messages.length;
+  if (reflected < messages.length) {
+    await markTranscriptProcessed(transcriptPath, messageCursors[reflected - 1], messages.slice(0, reflected), extractionResult, sessionId);
+    return 'partial';
+  }
+  await markTranscriptProcessed(transcriptPath, cursor, messages, extractionResult, sessionId);
+  return 'applied';
+}
+
+// Reflect on a whole transcript. Long transcripts are split into overlapping
+// token-budgeted windows that are reflected on separately and then combined,
+// so the caller still applies a single result. Beyond max_windows only the
+// first windows are reflected on, and `reflected` says how many messages
+// they cover.
+export async function reflectOnTranscript(
+  messages: any[],
+  playbook: Playbook,
+  diagnosticName: string,
+  priorContext: string = ''
+): Promise<ExtractionResult> {
+  const allWindows = splitIntoWindows(messages, getWindowTokens(), getWindowOverlap());
+  const windows = limitWindows(allWindows, getMaxWindows());
+
+  if (allWindows.length <= 1) {
+    return extractKeypoints(messages, playbook, diagnosticName, priorContext);
+  }
+
+  // Windows are slices of `messages`, so the first message locates the window
+  const offsets = windows.map(window => messages.indexOf(window[0]));
+  const end = (i: number) => offsets[i] + windows[i].length;
+
+  if (isDiagnosticMode()) {
+    const sizes = windows.map(w => w.length).join(', ');
+    const reflected = end(windows.length - 1);
+    const rest = reflected < messages.length ? `; the last ${messages.length - reflected} messages are left for the next run` : '';
+    saveDiagnostic(
+      `${messages.length} messages in ${allWindows.length} windows, reflecting on the first ${windows.length} (messages per window: ${sizes})${rest}`,
+      `${diagnosticName}_windows`
+    );
+  }
+
+  // A failed window ends the run: the windows before it are kept and the
+  // next run starts after them, so they are not paid for twice
+  const results: ExtractionResult[] = [];
+  for (let i = 0; i < windows.length; i++) {
+    const result = await extractKeypoints(windows[i], playbook, `${diagnosticName}_w${i + 1}`, priorContext, diagnosticName);
+    if (result.failed) {
+      if (i === 0) {
+        return result;
+      }
+      if (isDiagnosticMode()) {
+        saveDiagnostic(`Window ${i + 1} failed; keeping windows 1-${i}, the rest is left for the next run`, `${diagnosticName}_windows`);
       }
       break;
     }
+    results.push(offsetEvidence(result, offsets[i]));
   }
 
-  return finalResult;
+  const combined = combineExtractionResults(results);
+  const reflected = end(results.length - 1);
+  return reflected < messages.length ? { ...combined, reflected } : combined;
 }
@@ -0,0 +1,591 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import type { ScoringPolicy } from './scoring.js';
+import type { RedactionPolicy } from './redaction.js';
+import type { ModelPrice } from './usage.js';
+
+// All options, resolved from (lowest to highest precedence): built-in
+// defaults, the legacy `playbook_*` keys in ~/.claude/settings.json,
+// ~/.claude/memoria.json, <project>/.claude/memoria.json and AGENTIC_CONTEXT_*
+// environment variables. API keys are only ever read from the environment.
+export interface MemoriaConfig {
+  provider: string;
+  model?: string;
+  base_url?: string;
+  script_file?: string;
+  thinking_budget: number;
+  max_rounds: number;
+  use_cache: boolean;
+  structured_output: boolean;
+  repair_attempts: number;
+  max_retries: number;
+  retry_base_ms: number;
+  retry_max_ms: number;
+  call_timeout_ms: number;
+  fallback_models: string[];
+  usage_ledger: boolean;
+  dedup_threshold: number;
+  dedup_llm: boolean;
+  promotion_projects: number;
+  review: boolean;
+  review_approvals: number;
+  lock_timeout_ms: number;
+  history_revisions: number;
+  window_tokens: number;
+  window_overlap: number;
+  max_windows: number;
+  include_tools: boolean;
+  tool_input_chars: number;
+  tool_result_chars: number;
+  inject_token_budget: number;
+  inject_top_k: number;
+  inject_on_session_start: boolean;
+  queue: boolean;
+  queue_max_attempts: number;
+  queue_retry_ms: number;
+  update_on_exit: boolean;
+  update_on_clear: boolean;
+  scoring: Partial<ScoringPolicy>;
+  redaction: Partial<RedactionPolicy>;
+  prices: Record<string, Partial<ModelPrice>>;
+}
+
+export type ConfigSource = 'default' | 'settings.json' | 'user' | 'project' | 'env';
+
+type FieldType = 'boolean' | 'integer' | 'number' | 'string' | 'string_list';
+
+interface OptionSpec {
+  type: FieldType | 'object';
+  default: any;
+  description: string;
+  env?: string;
+  // Key in ~/.claude/settings.json from before memoria.json existed
+  legacyKey?: string;
+  // Decides where transcripts and API keys go: a cloned repository must not
+  // set it, so it is ignored in <project>/.claude/memoria.json
+  userOnly?: boolean;
+  // Object options: fields a project file must not set, e.g. ones that
+  // weaken redaction, while it may set the others
+  userOnlyFields?: string[];
+  min?: number;
+  max?: number;
+  values?: string[];
+  // Object options: the allowed fields, or for `entries` the fields of every entry
+  fields?: Record<string, FieldType>;
+  entries?: Record<string, FieldType>;
+}
+
+export interface ConfigIssue {
+  // File path or environment variable the bad value came from
+  source: string;
+  key: string;
+  message: string;
+}
+
+export interface ResolvedConfig {
+  config: MemoriaConfig;
+  sources: Record<keyof MemoriaConfig, ConfigSource[]>;
+  files: { source: ConfigSource; path: string; found: boolean }[];
+  issues: ConfigIssue[];
+}
+
+export const CONFIG_OPTIONS: Record<keyof MemoriaConfig, OptionSpec> = {
+  provider: {
+    type: 'string', default: 'anthropic', env: 'AGENTIC_CONTEXT_PROVIDER', values: ['anthropic', 'openai', 'scripted'], userOnly: true,
+    description: 'LLM backend',
+  },
+  model: {
+    type: 'string', default: undefined, env: 'AGENTIC_CONTEXT_MODEL',
+    description: 'Model for reflection; when unset, ANTHROPIC_MODEL, ANTHROPIC_DEFAULT_SONNET_MODEL or the provider default',
+  },
+  base_url: {
+    type: 'string', default: undefined, env: 'AGENTIC_CONTEXT_BASE_URL', userOnly: true,
+    description: 'API base URL; when unset, ANTHROPIC_BASE_URL or OPENAI_BASE_URL',
+  },
+  script_file: {
+    type: 'string', default: undefined, env: 'AGENTIC_CONTEXT_SCRIPT_FILE', userOnly: true,
+    description: 'Responses replayed by the scripted provider',
+  },
+  thinking_budget: {
+    type: 'integer', default: 16000, min: 0, env: 'AGENTIC_CONTEXT_THINKING_BUDGET',
+    description: 'Extended thinking budget in tokens (0 disables thinking)',
+  },
+  max_rounds: {
+    type: 'integer', default: 1, min: 1, env: 'AGENTIC_CONTEXT_MAX_ROUNDS',
+    description: 'Maximum reflection rounds per window',
+  },
+  use_cache: {
+    type: 'boolean', default: true, env: 'AGENTIC_CONTEXT_USE_CACHE',
+    description: 'Cache the playbook in the system message',
+  },
+  structured_output: {
+    type: 'boolean', default: true, env: 'AGENTIC_CONTEXT_STRUCTURED_OUTPUT',
+    description: 'Request schema-constrained output',
+  },
+  repair_attempts: {
+    type: 'integer', default: 1, min: 0, env: 'AGENTIC_CONTEXT_REPAIR_ATTEMPTS',
+    description: 'Times an unusable response is sent back for repair',
+  },
+  max_retries: {
+    type: 'integer', default: 3, min: 0, env: 'AGENTIC_CONTEXT_MAX_RETRIES',
+    description: 'Retries per model for transient API errors',
+  },
+  retry_base_ms: {
+    type: 'integer', default: 1000, min: 0, env: 'AGENTIC_CONTEXT_RETRY_BASE_MS',
+    description: 'Base delay for exponential backoff',
+  },
+  retry_max_ms: {
+    type: 'integer', default: 30000, min: 0, env: 'AGENTIC_CONTEXT_RETRY_MAX_MS',
+    description: 'Maximum delay between retries',
+  },
+  call_timeout_ms: {
+    type: 'integer', default: 90000, min: 1, env: 'AGENTIC_CONTEXT_CALL_TIMEOUT_MS',
+    description: 'Timeout for a single API request',
+  },
+  fallback_models: {
+    type: 'string_list', default: [], env: 'AGENTIC_CONTEXT_FALLBACK_MODELS',
+    description: 'Models tried in order when the primary model fails',
+  },
+  usage_ledger: {
+    type: 'boolean', default: true, env: 'AGENTIC_CONTEXT_USAGE_LEDGER',
+    description: 'Record token usage in ~/.claude/usage.jsonl',
+  },
+  dedup_threshold: {
+    // Single-word swaps ("tests"/"docs") score around 0.7-0.75
+    type: 'number', default: 0.85, min: 0, max: 1, env: 'AGENTIC_CONTEXT_DEDUP_THRESHOLD',
+    description: 'Similarity above which key points are merged',
+  },
+  dedup_llm: {
+    type: 'boolean', default: false, env: 'AGENTIC_CONTEXT_DEDUP_LLM',
+    description: 'Have the model confirm near-duplicates before merging',
+  },
+  promotion_projects: {
+    type: 'integer', default: 3, min: 1, env: 'AGENTIC_CONTEXT_PROMOTION_PROJECTS',
+    description: 'Projects that must learn a lesson before it is promoted',
+  },
+  review: {
+    type: 'boolean', default: false, env: 'AGENTIC_CONTEXT_REVIEW',
+    description: 'Hold new key points for review before they are injected',
+  },
+  review_approvals: {
+    type: 'integer', default: 2, min: 1, env: 'AGENTIC_CONTEXT_REVIEW_APPROVALS',
+    description: 'Later sessions that must rate a pending key point helpful',
+  },
+  lock_timeout_ms: {
+    type: 'integer', default: 60000, min: 0, env: 'AGENTIC_CONTEXT_LOCK_TIMEOUT_MS',
+    description: 'How long to wait for the playbook lock',
+  },
+  history_revisions: {
+    type: 'integer', default: 1000, min: 0, env: 'AGENTIC_CONTEXT_HISTORY_REVISIONS',
+    description: 'Revisions kept in playbook.history.jsonl (0: all)',
+  },
+  window_tokens: {
+    type: 'integer', default: 24000, min: 1, env: 'AGENTIC_CONTEXT_WINDOW_TOKENS',
+    description: 'Estimated tokens per reflection window',
+  },
+  window_overlap: {
+    type: 'integer', default: 4, min: 0, env: 'AGENTIC_CONTEXT_WINDOW_OVERLAP',
+    description: 'Messages shared between consecutive windows',
+  },
+  max_windows: {
+    type: 'integer', default: 6, min: 1, env: 'AGENTIC_CONTEXT_MAX_WINDOWS',
+    description: 'Maximum windows reflected on per run',
+  },
+  include_tools: {
+    type: 'boolean', default: true, env: 'AGENTIC_CONTEXT_INCLUDE_TOOLS',
+    description: 'Include tool calls and results in trajectories',
+  },
+  tool_input_chars: {
+    type: 'integer', default: 200, min: 0, env: 'AGENTIC_CONTEXT_TOOL_INPUT_CHARS',
+    description: "Characters kept from a tool call's key input",
+  },
+  tool_result_chars: {
+    type: 'integer', default: 500, min: 0, env: 'AGENTIC_CONTEXT_TOOL_RESULT_CHARS',
+    description: 'Characters kept from a failed tool result',
+  },
+  inject_token_budget: {
+    type: 'integer', default: 2000, min: 0, env: 'AGENTIC_CONTEXT_INJECT_TOKEN_BUDGET',
+    description: 'Token budget for injected key points (0: no limit)',
+  },
+  inject_top_k: {
+    type: 'integer', default: 15, min: 0, env: 'AGENTIC_CONTEXT_INJECT_TOP_K',
+    description: 'Key points injected per session (0: all)',
+  },
+  inject_on_session_start: {
+    type: 'boolean', default: false, env: 'AGENTIC_CONTEXT_INJECT_ON_SESSION_START',
+    description: 'Inject at session start, ranked by score, instead of at the first prompt',
+  },
+  queue: {
+    type: 'boolean', default: true, env: 'AGENTIC_CONTEXT_QUEUE',
+    description: 'Reflect in the background worker',
+  },
+  queue_max_attempts: {
+    type: 'integer', default: 5, min: 1, env: 'AGENTIC_CONTEXT_QUEUE_MAX_ATTEMPTS',
+    description: 'Attempts per queued job before it is moved to failed/',
+  },
+  queue_retry_ms: {
+    type: 'integer', default: 30000, min: 0, env: 'AGENTIC_CONTEXT_QUEUE_RETRY_MS',
+    description: 'Delay before the first retry of a failed job',
+  },
+  update_on_exit: {
+    type: 'boolean', default: false, legacyKey: 'playbook_update_on_exit',
+    description: 'Reflect when a session ends with /exit',
+  },
+  update_on_clear: {
+    type: 'boolean', default: false, legacyKey: 'playbook_update_on_clear',
+    description: 'Reflect when a session ends with /clear',
+  },
+  scoring: {
+    type: 'object', default: {}, legacyKey: 'playbook_scoring',
+    description: 'Scoring policy overrides',
+    fields: {
+      helpful: 'number',
+      harmful: 'number',
+      neutral: 'number',
+      penalize_neutral: 'boolean',
+      prune_threshold: 'number',
+      decay_grace_days: 'number',
+      decay_per_day: 'number',
+    },
+  },
+  redaction: {
+    type: 'object', default: {}, legacyKey: 'playbook_redaction', userOnlyFields: ['enabled', 'disabled', 'entropy_threshold'],
+    description: 'Redaction policy overrides',
+    fields: { enabled: 'boolean', disabled: 'string_list', patterns: 'string_list', entropy_threshold: 'number' },
+  },
+  prices: {
+    type: 'object', default: {}, legacyKey: 'playbook_prices',
+    description: 'USD per million tokens, by model name or prefix',
+    entries: { input: 'number', output: 'number', cache_read: 'number', cache_write: 'number' },
+  },
+};
+
+export function getProjectDir(): string {
+  const projectDir = process.env['CLAUDE_PROJECT_DIR'];
+  if (projectDir) {
+    return projectDir;
+  }
+  return os.homedir();
+}
+
+export function getUserClaudeDir(): string {
+  return path.join(os.homedir(), '.claude');
+}
+
+export function getUserConfigPath(): string {
+  return path.join(getUserClaudeDir(), 'memoria.json');
+}
+
+export function getProjectConfigPath(): string {
+  return path.join(getProjectDir(), '.claude', 'memoria.json');
+}
+
+// Edit distance, for "did you mean" suggestions
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function unknownKeyMessage(key: string, known: string[]): string {
+  const closest = known
+    .map(name => ({ name, distance: editDistance(key, name) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  const hint = closest && closest.distance <= Math.max(2, Math.floor(key.length / 3)) ? ` (did you mean "${closest.name}"?)` : '';
+  return `unknown option${hint}`;
+}
+
+function describeType(spec: { type: FieldType; min?: number; max?: number; values?: string[] }): string {
+  if (spec.values) {
+    return `one of ${spec.values.map(value => `"${value}"`).join(', ')}`;
+  }
+  const bounds = [
+    spec.min !== undefined ? `>= ${spec.min}` : '',
+    spec.max !== undefined ? `<= ${spec.max}` : '',
+  ].filter(Boolean).join(' and ');
+  const name = {
+    boolean: 'true or false',
+    integer: 'an integer',
+    number: 'a number',
+    string: 'a string',
+    string_list: 'a list of strings',
+  }[spec.type];
+  return bounds ? `${name} ${bounds}` : name;
+}
+
+function isValidField(value: any, spec: { type: FieldType; min?: number; max?: number; values?: string[] }): boolean {
+  switch (spec.type) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || !isFinite(value)) return false;
+      if (spec.type === 'integer' && !Number.isInteger(value)) return false;
+      return (spec.min === undefined || value >= spec.min) && (spec.max === undefined || value <= spec.max);
+    case 'string':
+      return typeof value === 'string' && (!spec.values || spec.values.includes(value));
+    case 'string_list':
+      return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+}
+
+function invalidMessage(value: any, expected: string): string {
+  return `expected ${expected}, got ${JSON.stringify(value)}`;
+}
+
+// Keep the valid fields of an object option, reporting the rest
+function checkObject(key: string, value: any, spec: OptionSpec, source: string, issues: ConfigIssue[]): Record<string, any> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    issues.push({ source, key, message: invalidMessage(value, 'an object') });
+    return undefined;
+  }
+
+  const checkFields = (prefix: string, object: any, fields: Record<string, FieldType>): Record<string, any> => {
+    const result: Record<string, any> = {};
+    for (const [field, item] of Object.entries<any>(object)) {
+      const type = fields[field];
+      if (!type) {
+        issues.push({ source, key: `${prefix}.${field}`, message: unknownKeyMessage(field, Object.keys(fields)) });
+      } else if (!isValidField(item, { type })) {
+        issues.push({ source, key: `${prefix}.${field}`, message: invalidMessage(item, describeType({ type })) });
+      } else {
+        result[field] = item;
+      }
+    }
+    return result;
+  };
+
+  if (spec.fields) {
+    const result = checkFields(key, value, spec.fields);
+    if (result['patterns']) {
+      result['patterns'] = result['patterns'].filter((pattern: string) => {
+        try {
+          new RegExp(pattern);
+          return true;
+        } catch (e) {
+          issues.push({ source, key: `${key}.patterns`, message: `invalid regular expression ${JSON.stringify(pattern)}` });
+          return false;
+        }
+      });
+    }
+    return result;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [entry, item] of Object.entries<any>(value)) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      issues.push({ source, key: `${key}.${entry}`, message: invalidMessage(item, 'an object') });
+      continue;
+    }
+    const fields = checkFields(`${key}.${entry}`, item, spec.entries || {});
+    // An entry without a single valid field would silently price a model at zero
+    if (Object.keys(fields).length > 0) {
+      result[entry] = fields;
+    }
+  }
+  return result;
+}
+
+function checkValue(key: string, value: any, spec: OptionSpec, source: string, issues: ConfigIssue[]): any {
+  if (spec.type === 'object') {
+    return checkObject(key, value, spec, source, issues);
+  }
+  if (!isValidField(value, spec as OptionSpec & { type: FieldType })) {
+    issues.push({ source, key, message: invalidMessage(value, describeType(spec as OptionSpec & { type: FieldType })) });
+    return undefined;
+  }
+  return value;
+}
+
+// Environment variables are strings; convert them before validation
+function parseEnvValue(raw: string, type: FieldType): any {
+  switch (type) {
+    case 'boolean':
+      if (['true', '1', 'yes'].includes(raw.toLowerCase())) return true;
+      if (['false', '0', 'no'].includes(raw.toLowerCase())) return false;
+      return raw;
+    case 'integer':
+    case 'number':
+      return raw.trim() === '' || isNaN(Number(raw)) ? raw : Number(raw);
+    case 'string_list':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    case 'string':
+      return raw;
+  }
+}
+
+interface ConfigLayer {
+  source: ConfigSource;
+  path: string;
+  found: boolean;
+  values: Partial<Record<keyof MemoriaConfig, any>>;
+}
+
+function readJsonFile(filePath: string, issues: ConfigIssue[]): any {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      issues.push({ source: filePath, key: '', message: 'expected a JSON object' });
+      return {};
+    }
+    return data;
+  } catch (e) {
+    issues.push({ source: filePath, key: '', message: `cannot parse: ${(e as Error).message}` });
+    return {};
+  }
+}
+
+// settings.json belongs to Claude Code; only its `playbook_*` keys are ours
+function readSettingsLayer(filePath: string, issues: ConfigIssue[]): ConfigLayer {
+  const data = readJsonFile(filePath, issues);
+  const layer: ConfigLayer = { source: 'settings.json', path: filePath, found: data !== undefined, values: {} };
+  if (!data) {
+    return layer;
+  }
+
+  const byLegacyKey = new Map<string, keyof MemoriaConfig>();
+  for (const [key, spec] of Object.entries(CONFIG_OPTIONS)) {
+    if (spec.legacyKey) byLegacyKey.set(spec.legacyKey, key as keyof MemoriaConfig);
+  }
+
+  for (const [legacyKey, value] of Object.entries<any>(data)) {
+    const key = byLegacyKey.get(legacyKey);
+    if (key) {
+      const checked = checkValue(legacyKey, value, CONFIG_OPTIONS[key], filePath, issues);
+      if (checked !== undefined) layer.values[key] = checked;
+    } else if (legacyKey.startsWith('playbook_')) {
+      issues.push({ source: filePath, key: legacyKey, message: unknownKeyMessage(legacyKey, [...byLegacyKey.keys()]) });
+    }
+  }
+  return layer;
+}
+
+function readConfigLayer(source: ConfigSource, filePath: string, issues: ConfigIssue[]): ConfigLayer {
+  const data = readJsonFile(filePath, issues);
+  const layer: ConfigLayer = { source, path: filePath, found: data !== undefined, values: {} };
+  if (!data) {
+    return layer;
+  }
+
+  const known = Object.keys(CONFIG_OPTIONS);
+  for (let [key, value] of Object.entries<any>(data)) {
+    // Lets editors validate the file against a published schema
+    if (key === '$schema') continue;
+    if (!known.includes(key)) {
+      issues.push({ source: filePath, key, message: unknownKeyMessage(key, known) });
+      continue;
+    }
+    const spec = CONFIG_OPTIONS[key as keyof MemoriaConfig];
+    const notAllowed = `not allowed in a project file; set it in ${getUserConfigPath()}${spec.env ? ` or with ${spec.env}` : ''}`;
+    if (source === 'project' && spec.userOnly) {
+      issues.push({ source: filePath, key, message: notAllowed });
+      continue;
+    }
+    if (source === 'project' && spec.userOnlyFields && value && typeof value === 'object' && !Array.isArray(value)) {
+      value = { ...value };
+      for (const field of spec.userOnlyFields.filter(field => field in value)) {
+        issues.push({ source: filePath, key: `${key}.${field}`, message: notAllowed });
+        delete value[field];
+      }
+    }
+    const checked = checkValue(key, value, spec, filePath, issues);
+    if (checked !== undefined) layer.values[key as keyof MemoriaConfig] = checked;
+  }
+  return layer;
+}
+
+function readEnvLayer(issues: ConfigIssue[]): ConfigLayer {
+  const layer: ConfigLayer = { source: 'env', path: 'environment', found: true, values: {} };
+  for (const [key, spec] of Object.entries(CONFIG_OPTIONS)) {
+    const raw = spec.env ? process.env[spec.env] : undefined;
+    if (raw === undefined || spec.type === 'object') continue;
+    const checked = checkValue(key, parseEnvValue(raw, spec.type), spec, spec.env!, issues);
+    if (checked !== undefined) layer.values[key as keyof MemoriaConfig] = checked;
+  }
+  return layer;
+}
+
+// File layers are parsed once per process and project; the environment is
+// read on every call
+let fileLayerCache: { key: string; layers: ConfigLayer[]; issues: ConfigIssue[] } | null = null;
+
+function readFileLayers(): { layers: ConfigLayer[]; issues: ConfigIssue[] } {
+  const userPath = getUserConfigPath();
+  const projectPath = getProjectConfigPath();
+  const cacheKey = `${userPath}\n${projectPath}`;
+  if (fileLayerCache && fileLayerCache.key === cacheKey) {
+    return fileLayerCache;
+  }
+
+  const issues: ConfigIssue[] = [];
+  const layers = [
+    readSettingsLayer(path.join(getUserClaudeDir(), 'settings.json'), issues),
+    readConfigLayer('user', userPath, issues),
+  ];
+  // Without a project the project directory is the home directory
+  if (path.resolve(projectPath) !== path.resolve(userPath)) {
+    layers.push(readConfigLayer('project', projectPath, issues));
+  }
+
+  fileLayerCache = { key: cacheKey, layers, issues };
+  return fileLayerCache;
+}
+
+// Invalid values are reported and skipped, so a typo falls back to the
+// value from the layer below instead of breaking the hooks
+export function resolveConfig(): ResolvedConfig {
+  const fileLayers = readFileLayers();
+  const issues = [...fileLayers.issues];
+  const layers = [...fileLayers.layers, readEnvLayer(issues)];
+
+  const config: any = {};
+  const sources: any = {};
+  for (const [key, spec] of Object.entries(CONFIG_OPTIONS)) {
+    config[key] = spec.type === 'object' ? { ...spec.default } : spec.default;
+    sources[key] = ['default'];
+
+    for (const layer of layers) {
+      if (!(key in layer.values)) continue;
+      const value = layer.values[key as keyof MemoriaConfig];
+      if (spec.type === 'object') {
+        // Objects are merged field by field (entry by entry for prices);
+        // lists such as redaction patterns add up
+        const lists = Object.entries(spec.fields || {})
+          .filter(([field, type]) => type === 'string_list' && config[key][field] && value[field])
+          .map(([field]) => [field, [...new Set([...config[key][field], ...value[field]])]]);
+        config[key] = { ...config[key], ...value, ...Object.fromEntries(lists) };
+        sources[key] = sources[key][0] === 'default' ? [layer.source] : [...sources[key], layer.source];
+      } else {
+        config[key] = value;
+        sources[key] = [layer.source];
+      }
+    }
+  }
+
+  return {
+    config,
+    sources,
+    files: layers.filter(layer => layer.source !== 'env').map(({ source, path: filePath, found }) => ({ source, path: filePath, found })),
+    issues,
+  };
+}
+
+export function getConfig(): MemoriaConfig {
+  return resolveConfig().config;
+}
+
+export function formatConfigIssue(issue: ConfigIssue): string {
+  return issue.key ? `${issue.source}: ${issue.key}: ${issue.message}` : `${issue.source}: ${issue.message}`;
+}
@@ -0,0 +1,150 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { createKeyPoint, curatePlaybookFile, getPlaybookPath } from './common.js';
+import { CONFIG_OPTIONS } from './config.js';
+import { findDuplicateCandidates, identifierTokens, textSimilarity } from './dedupe.js';
+
+const KEEP = 'Run npm test before committing changes to the hooks';
+const FOLD = 'Run npm test before committing any changes to the hooks';
+
+const THRESHOLD = CONFIG_OPTIONS.dedup_threshold.default as number;
+
+// Different lessons worded almost alike
+const DISTINCT = [
+  ['Use pnpm to install dependencies in this repo', 'Use yarn to install dependencies in this repo'],
+  ['Run npm test before committing', 'Run npm run lint before committing'],
+  ['Build the hooks with npm run build', 'Build the CLI with npm run build:cli'],
+  ['Write tests before the implementation', 'Write docs before the implementation'],
+  ['Ask before deleting files in the repository', 'Ask before renaming files in the repository'],
+  ['Log errors with the shared logger module', 'Log warnings with the shared logger module'],
+  ['Always run the tests before committing', 'Never run the tests before committing'],
+];
+
+const PARAPHRASES = [
+  [KEEP, FOLD],
+  ['Always run the test suite before committing changes', 'Before committing changes, always run the test suite'],
+  ['Install dependencies with `npm`', 'Use npm to install dependencies'],
+  ['Write commit messages in the imperative mood', 'Write commit messages in imperative mood'],
+];
+
+let server: http.Server;
+// Called with each confirmation request before it is answered
+let onRequest: () => void = () => {};
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      onRequest();
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ model: 'primary', choices: [{ message: { content: '[true]' } }], usage: { prompt_tokens: 1, completion_tokens: 1 } }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+function setUp(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-dedupe-'));
+  fs.mkdirSync(path.join(root, 'home', '.claude'), { recursive: true });
+  fs.mkdirSync(path.join(root, 'project', '.claude'), { recursive: true });
+
+  process.env['HOME'] = path.join(root, 'home');
+  process.env['CLAUDE_PROJECT_DIR'] = path.join(root, 'project');
+  process.env['AGENTIC_CONTEXT_PROVIDER'] = 'openai';
+  process.env['AGENTIC_CONTEXT_API_KEY'] = 'test';
+  process.env['AGENTIC_CONTEXT_MODEL'] = 'primary';
+  process.env['AGENTIC_CONTEXT_BASE_URL'] = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  process.env['AGENTIC_CONTEXT_DEDUP_LLM'] = 'true';
+
+  const playbookPath = getPlaybookPath('project');
+  fs.writeFileSync(playbookPath, JSON.stringify({
+    version: '2.0',
+    last_updated: null,
+    key_points: [
+      { name: 'kpt_keep', text: KEEP, score: 2 },
+      { name: 'kpt_fold', text: FOLD, score: 0 },
+    ],
+  }));
+  return playbookPath;
+}
+
+function readKeyPoints(playbookPath: string): any[] {
+  return JSON.parse(fs.readFileSync(playbookPath, 'utf-8')).key_points;
+}
+
+test('distinct lessons stay below the default threshold', () => {
+  for (const [a, b] of DISTINCT) {
+    assert.ok(textSimilarity(a, b) < THRESHOLD, `${a} / ${b}: ${textSimilarity(a, b)}`);
+  }
+});
+
+test('rewordings of one lesson reach the default threshold', () => {
+  for (const [a, b] of PARAPHRASES) {
+    assert.ok(textSimilarity(a, b) >= THRESHOLD, `${a} / ${b}: ${textSimilarity(a, b)}`);
+  }
+});
+
+test('different tools, commands or identifiers block a match', () => {
+  assert.deepEqual([...identifierTokens('Run `npm test` with --coverage, then pnpm run build:cli')].sort(),
+    ['--coverage', 'build:cli', 'npm', 'npm test', 'pnpm', 'test']);
+  assert.equal(textSimilarity('Use pnpm to install dependencies', 'Use yarn to install dependencies'), 0);
+  // Naming no identifier at all is not a difference
+  assert.ok(textSimilarity('Run npm test before committing changes', 'Run the tests before committing changes') > 0);
+});
+
+test('findDuplicateCandidates leaves distinct lessons alone', () => {
+  const keyPoints = DISTINCT.flat().map((text, i) => createKeyPoint(`kpt_${i}`, text));
+  assert.deepEqual(findDuplicateCandidates(keyPoints, THRESHOLD), []);
+
+  const paraphrased = [...keyPoints, createKeyPoint('kpt_extra', 'Use pnpm to install the dependencies in this repo')];
+  assert.deepEqual(findDuplicateCandidates(paraphrased, THRESHOLD).map(c => [c.keep.name, c.fold.name]), [['kpt_0', 'kpt_extra']]);
+});
+
+test('the model confirms duplicates without the playbook lock held', async () => {
+  const playbookPath = setUp();
+  let locked: boolean | undefined;
+  onRequest = () => {
+    locked = fs.existsSync(`${playbookPath}.lock`);
+  };
+
+  const records = await curatePlaybookFile('project', { trigger: 'test' });
+
+  assert.equal(locked, false);
+  assert.deepEqual(records.map(r => [r.into, r.from, r.method]), [['kpt_keep', 'kpt_fold', 'similarity+llm']]);
+  assert.deepEqual(readKeyPoints(playbookPath).map(kp => kp.name), ['kpt_keep']);
+});
+
+test('a confirmed pair edited during the call is not merged', async () => {
+  const playbookPath = setUp();
+  onRequest = () => {
+    const playbook = JSON.parse(fs.readFileSync(playbookPath, 'utf-8'));
+    playbook.key_points[1].text = `${FOLD} in this repository`;
+    fs.writeFileSync(playbookPath, JSON.stringify(playbook));
+  };
+
+  const records = await curatePlaybookFile('project', { trigger: 'test' });
+
+  assert.deepEqual(records, []);
+  assert.deepEqual(readKeyPoints(playbookPath).map(kp => kp.name).sort(), ['kpt_fold', 'kpt_keep']);
+});
+
+test('a dry run asks the model but leaves the playbook alone', async () => {
+  const playbookPath = setUp();
+  const before = fs.readFileSync(playbookPath, 'utf-8');
+  onRequest = () => {};
+
+  const records = await curatePlaybookFile('project', { trigger: 'test' }, true);
+
+  assert.deepEqual(records.map(r => [r.into, r.from, r.method]), [['kpt_keep', 'kpt_fold', 'similarity+llm']]);
+  assert.equal(fs.readFileSync(playbookPath, 'utf-8'), before);
+});
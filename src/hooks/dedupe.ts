@@ -0,0 +1,240 @@
+import type { KeyPoint, MergeRecord, Playbook } from './common.js';
+import { tokenize } from './ranking.js';
+import { compareAge } from './budget.js';
+import { getConfig } from './config.js';
+import { combineReviewState } from './review.js';
+import { capProvenance } from './provenance.js';
+
+// Crude stemming so "tests"/"test" and "running"/"run" compare equal
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith('ing')) {
+    return token.slice(0, -3);
+  }
+  if (token.length > 4 && token.endsWith('ed')) {
+    return token.slice(0, -2);
+  }
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+export function normalizedTokens(text: string): Set<string> {
+  return new Set(tokenize(text.replace(/`/g, ' ')).map(stem));
+}
+
+function shingles(text: string, size: number = 3): Set<string> {
+  const normalized = text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  const result = new Set<string>();
+  for (let i = 0; i + size <= normalized.length; i++) {
+    result.add(normalized.slice(i, i + size));
+  }
+  return result;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function overlapCoefficient(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / Math.min(a.size, b.size);
+}
+
+const NEGATION = /\b(not|never|no|don't|dont|avoid|instead of)\b/i;
+
+// Package managers, build tools and runners: "use pnpm" and "use yarn" are
+// different lessons however alike the rest of the sentence is
+const TOOLS = new Set([
+  'npm', 'npx', 'pnpm', 'yarn', 'bun', 'deno', 'node', 'pip', 'pipenv', 'poetry', 'uv', 'conda',
+  'cargo', 'go', 'make', 'cmake', 'gradle', 'mvn', 'git', 'gh', 'docker', 'kubectl', 'brew',
+  'jest', 'vitest', 'mocha', 'pytest', 'eslint', 'prettier', 'tsc', 'webpack', 'vite', 'esbuild', 'rollup', 'babel',
+]);
+
+// Words between a tool and its command, and words that are not a command
+const COMMAND_PREFIXES = new Set(['run', 'exec', 'x', 'dlx']);
+const NOT_COMMANDS = new Set(['to', 'for', 'and', 'or', 'with', 'in', 'on', 'the', 'a', 'an', 'when', 'before', 'after', 'instead', 'is', 'are', 'if', 'as', 'of']);
+
+const ABBREVIATIONS = new Set(['e.g', 'i.e', 'etc']);
+
+// Tools, the commands run with them, flags, file names, paths and other
+// code-like tokens (in backticks, dotted, camelCase, with digits or in caps)
+export function identifierTokens(text: string): Set<string> {
+  const identifiers = new Set<string>();
+  for (const span of text.match(/`[^`]+`/g) || []) {
+    identifiers.add(span.slice(1, -1).trim().toLowerCase());
+  }
+
+  const words = text.replace(/`/g, ' ').split(/\s+/).map(word => word.replace(/^[("']+|[)"',;!?.]+$/g, '')).filter(Boolean);
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    const lower = word.toLowerCase();
+    if (ABBREVIATIONS.has(lower)) {
+      continue;
+    }
+    if (TOOLS.has(lower) || /^-{1,2}\w/.test(word) || /\w[._:/@]\w/.test(word) || /\d/.test(word) ||
+        /[a-z][A-Z]/.test(word) || /^[A-Z]{2,}s?$/.test(word)) {
+      identifiers.add(lower);
+    }
+    if (TOOLS.has(lower)) {
+      let next = i + 1;
+      while (next < words.length && COMMAND_PREFIXES.has(words[next].toLowerCase())) next++;
+      if (next < words.length && !NOT_COMMANDS.has(words[next].toLowerCase())) {
+        identifiers.add(words[next].toLowerCase());
+      }
+    }
+  }
+  return identifiers;
+}
+
+// Both texts name tools, commands or identifiers, but not the same ones
+function identifiersDiffer(a: string, b: string): boolean {
+  const idsA = identifierTokens(a);
+  const idsB = identifierTokens(b);
+  if (idsA.size === 0 || idsB.size === 0) {
+    return false;
+  }
+  return [...idsA].some(id => !idsB.has(id)) || [...idsB].some(id => !idsA.has(id));
+}
+
+// Word overlap catches reordering and paraphrase, character shingles catch
+// small wording changes. Texts that disagree on negation, or on the tools,
+// commands and identifiers they name, never match.
+export function textSimilarity(a: string, b: string): number {
+  if (NEGATION.test(a) !== NEGATION.test(b) || identifiersDiffer(a, b)) {
+    return 0;
+  }
+
+  const tokensA = normalizedTokens(a);
+  const tokensB = normalizedTokens(b);
+  if (tokensA.size < 2 || tokensB.size < 2) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  }
+
+  const tokenScore = 0.5 * jaccard(tokensA, tokensB) + 0.5 * overlapCoefficient(tokensA, tokensB);
+  return Math.max(tokenScore, jaccard(shingles(a), shingles(b)));
+}
+
+// A rewording of the same sentence (punctuation, an inserted word). Used
+// where a false match loses a lesson outright instead of merging it.
+export const NEAR_VERBATIM_SIMILARITY = 0.95;
+
+export function getDedupThreshold(): number {
+  return getConfig().dedup_threshold;
+}
+
+export interface DuplicateCandidate {
+  keep: KeyPoint;
+  fold: KeyPoint;
+  similarity: number;
+}
+
+// Pinned first, then highest score, then oldest
+function survivorOrder(a: KeyPoint, b: KeyPoint): number {
+  if (Boolean(a.pinned) !== Boolean(b.pinned)) {
+    return a.pinned ? -1 : 1;
+  }
+  if ((b.score || 0) !== (a.score || 0)) {
+    return (b.score || 0) - (a.score || 0);
+  }
+  return compareAge(a, b);
+}
+
+// Greedily assign each key point to the most similar earlier survivor above
+// the threshold. Each key point appears at most once as `fold`.
+export function findDuplicateCandidates(keyPoints: KeyPoint[], threshold: number): DuplicateCandidate[] {
+  const ordered = [...keyPoints].sort(survivorOrder);
+  const survivors: KeyPoint[] = [];
+  const candidates: DuplicateCandidate[] = [];
+
+  for (const kp of ordered) {
+    let best: DuplicateCandidate | null = null;
+    for (const survivor of survivors) {
+      const similarity = textSimilarity(survivor.text, kp.text);
+      if (similarity >= threshold && (!best || similarity > best.similarity)) {
+        best = { keep: survivor, fold: kp, similarity };
+      }
+    }
+
+    if (best) {
+      candidates.push(best);
+    } else {
+      survivors.push(kp);
+    }
+  }
+
+  return candidates;
+}
+
+// Earlier and later of two optional ISO timestamps
+export function earliest(a: string | null | undefined, b: string | null | undefined): string | null {
+  if (!a || !b) return a || b || null;
+  return a < b ? a : b;
+}
+
+export function latest(a: string | null | undefined, b: string | null | undefined): string | null {
+  if (!a || !b) return a || b || null;
+  return a > b ? a : b;
+}
+
+// The survivor inherits the folded key point's history: rating counts add up,
+// sessions, tags and provenance are combined, and the timestamps span both
+function mergeMetadata(keep: KeyPoint, fold: KeyPoint): void {
+  const a = keep.ratings || { helpful: 0, harmful: 0, neutral: 0 };
+  const b = fold.ratings || { helpful: 0, harmful: 0, neutral: 0 };
+  keep.ratings = { helpful: a.helpful + b.helpful, harmful: a.harmful + b.harmful, neutral: a.neutral + b.neutral };
+  keep.sessions = [...new Set([...(keep.sessions || []), ...(fold.sessions || [])])];
+  keep.tags = [...new Set([...(keep.tags || []), ...(fold.tags || [])])];
+  keep.created_at = earliest(keep.created_at, fold.created_at);
+  keep.last_seen = latest(keep.last_seen, fold.last_seen);
+  if (!keep.category && fold.category) {
+    keep.category = fold.category;
+  }
+  if (keep.provenance || fold.provenance) {
+    keep.provenance = capProvenance([...(keep.provenance || []), ...(fold.provenance || [])]);
+  }
+  combineReviewState(keep, fold);
+}
+
+// Fold each candidate into its survivor: scores are summed, the folded ids are
+// kept in `merged_from` and every merge is logged on the playbook.
+export function applyMerges(playbook: Playbook, candidates: DuplicateCandidate[], method: string): MergeRecord[] {
+  const records: MergeRecord[] = [];
+  const folded = new Set<string>();
+  const now = new Date().toISOString();
+
+  for (const { keep, fold, similarity } of candidates) {
+    keep.score = (keep.score || 0) + (fold.score || 0);
+    keep.merged_from = [...(keep.merged_from || []), fold.name, ...(fold.merged_from || [])];
+    mergeMetadata(keep, fold);
+    folded.add(fold.name);
+
+    records.push({
+      into: keep.name,
+      from: fold.name,
+      text: fold.text,
+      similarity: Math.round(similarity * 1000) / 1000,
+      method,
+      merged_at: now,
+    });
+  }
+
+  if (records.length > 0) {
+    playbook.key_points = playbook.key_points.filter(kp => !folded.has(kp.name));
+    playbook.merges = [...(playbook.merges || []), ...records];
+  }
+  return records;
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { formatApiKeyVariables, getApiSettings, getPlaybookPath, hasProjectLayer, readPlaybookFile } from './common.js';
+import { formatConfigIssue, getConfig, getUserClaudeDir, resolveConfig } from './config.js';
+import { createProvider } from './providers.js';
+import { listFailedJobs } from './queue.js';
+import { classifyError } from './retry.js';
+import { isApproved } from './review.js';
+
+// Health checks behind `memoria doctor`: is everything install.js sets up
+// still in place, and can the hooks actually do their work?
+
+export type CheckStatus = 'ok' | 'warn' | 'fail' | 'skip';
+
+export interface DoctorCheck {
+  name: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface DoctorOptions {
+  // Skip the API call
+  offline: boolean;
+}
+
+// Hook event -> script install.js registers for it
+const HOOK_EVENTS: Record<string, string> = {
+  UserPromptSubmit: 'user_prompt_inject.js',
+  SessionEnd: 'session_end.js',
+  PreCompact: 'precompact.js',
+};
+
+// Registered by install.js, but UserPromptSubmit covers for them
+const OPTIONAL_HOOK_EVENTS: Record<string, string> = {
+  SessionStart: 'session_start.js',
+};
+
+// Spawned by the hooks rather than registered
+const HOOK_FILES = [...Object.values(HOOK_EVENTS), ...Object.values(OPTIONAL_HOOK_EVENTS), 'reflection_worker.js'];
+
+// Placeholders each template must contain to be of any use
+const TEMPLATE_PLACEHOLDERS: Record<string, string[]> = {
+  'reflection.txt': ['{trajectories}'],
+  'playbook.txt': ['{key_points}'],
+};
+
+const API_CHECK_TIMEOUT_MS = 20000;
+
+function checkHookRegistration(): DoctorCheck[] {
+  const settingsPath = path.join(getUserClaudeDir(), 'settings.json');
+  let settings: any;
+  try {
+    settings = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
+  } catch (e) {
+    const detail = fs.existsSync(settingsPath) ? `${settingsPath} is not valid JSON` : `${settingsPath} not found`;
+    return [{ name: 'hooks registered', status: 'fail', detail: `${detail}; run "node install.js"` }];
+  }
+
+  const checks: DoctorCheck[] = [];
+  const events = [
+    ...Object.entries(HOOK_EVENTS).map(([event, script]) => ({ event, script, optional: false })),
+    ...Object.entries(OPTIONAL_HOOK_EVENTS).map(([event, script]) => ({ event, script, optional: true })),
+  ];
+  for (const { event, script, optional } of events) {
+    const name = `${event} hook`;
+    const commands: string[] = (settings.hooks?.[event] || [])
+      .flatMap((group: any) => group?.hooks || [])
+      .map((hook: any) => String(hook?.command || ''))
+      .filter((command: string) => command.includes(script));
+
+    if (commands.length === 0) {
+      checks.push({ name, status: optional ? 'warn' : 'fail', detail: `not registered in ${settingsPath}; run "node install.js"` });
+      continue;
+    }
+
+    // Commands look like: node "/home/me/.claude/hooks/session_end.js"
+    const missing = commands
+      .map(command => (command.match(/"([^"]+)"/) || command.match(/(\S+\.js)/) || [])[1])
+      .filter((file): file is string => Boolean(file) && !fs.existsSync(file!));
+    if (missing.length > 0) {
+      checks.push({ name, status: 'fail', detail: `registered, but ${missing.join(', ')} does not exist` });
+    } else if (commands.length > 1) {
+      checks.push({ name, status: 'warn', detail: `registered ${commands.length} times; each session will run it repeatedly` });
+    } else {
+      checks.push({ name, status: 'ok', detail: commands[0] });
+    }
+  }
+
+  const legacy = Object.keys(HOOK_EVENTS)
+    .flatMap(event => settings.hooks?.[event] || [])
+    .flatMap((group: any) => group?.hooks || [])
+    .some((hook: any) => /\b(user_prompt_inject|session_end|precompact)\.py\b/.test(String(hook?.command || '')));
+  if (legacy) {
+    checks.push({ name: 'legacy hooks', status: 'warn', detail: 'Python hooks from an old version are still registered; run "node install.js"' });
+  }
+
+  return checks;
+}
+
+function checkHookFiles(): DoctorCheck {
+  const hooksDir = path.join(getUserClaudeDir(), 'hooks');
+  const missing = HOOK_FILES.filter(file => !fs.existsSync(path.join(hooksDir, file)));
+  if (missing.length > 0) {
+    return { name: 'hook files', status: 'fail', detail: `missing in ${hooksDir}: ${missing.join(', ')}; run "npm run build" and "node install.js"` };
+  }
+  return { name: 'hook files', status: 'ok', detail: hooksDir };
+}
+
+function checkTemplates(): DoctorCheck[] {
+  const promptsDir = path.join(getUserClaudeDir(), 'prompts');
+
+  return Object.entries(TEMPLATE_PLACEHOLDERS).map(([file, placeholders]): DoctorCheck => {
+    const name = `template ${file}`;
+    const templatePath = path.join(promptsDir, file);
+    if (!fs.existsSync(templatePath)) {
+      return { name, status: 'fail', detail: `${templatePath} not found; run "node install.js"` };
+    }
+
+    const content = fs.readFileSync(templatePath, 'utf-8');
+    const missing = placeholders.filter(placeholder => !content.includes(placeholder));
+    if (missing.length > 0) {
+      return { name, status: 'fail', detail: `missing placeholder ${missing.join(', ')}` };
+    }
+    if (fs.existsSync(`${templatePath}.new`)) {
+      return { name, status: 'warn', detail: `customized; an updated version is waiting in ${file}.new` };
+    }
+    return { name, status: 'ok', detail: templatePath };
+  });
+}
+
+function checkConfig(): DoctorCheck {
+  const { issues } = resolveConfig();
+  if (issues.length > 0) {
+    return { name: 'configuration', status: 'warn', detail: issues.map(formatConfigIssue).join('; ') };
+  }
+  return { name: 'configuration', status: 'ok', detail: 'no problems' };
+}
+
+function checkPlaybooks(): DoctorCheck[] {
+  const scopes: ('project' | 'global')[] = hasProjectLayer() ? ['project', 'global'] : ['project'];
+
+  return scopes.map((scope): DoctorCheck => {
+    const name = `${scope} playbook`;
+    const playbookPath = getPlaybookPath(scope);
+    if (!fs.existsSync(playbookPath)) {
+      return { name, status: 'ok', detail: `${playbookPath} (not created yet)` };
+    }
+    try {
+      const playbook = readPlaybookFile(playbookPath);
+      const pending = playbook.key_points.filter(kp => !isApproved(kp)).length;
+      const count = `${playbook.key_points.length} key point${playbook.key_points.length === 1 ? '' : 's'}`;
+      return { name, status: 'ok', detail: `${playbookPath} (${count}${pending > 0 ? `, ${pending} pending review` : ''})` };
+    } catch (e) {
+      return { name, status: 'fail', detail: (e as Error).message };
+    }
+  });
+}
+
+function checkQueue(): DoctorCheck {
+  const name = 'reflection queue';
+  const failed = listFailedJobs();
+  if (failed.length === 0) {
+    return { name, status: 'ok', detail: 'no failed jobs' };
+  }
+  const latest = failed[failed.length - 1];
+  return {
+    name,
+    status: 'warn',
+    detail: `${failed.length} failed job${failed.length === 1 ? '' : 's'}, the latest with: ${latest.last_error || 'unknown error'}; inspect with "memoria queue", requeue with "memoria queue --retry"`,
+  };
+}
+
+async function checkApi(options: DoctorOptions): Promise<DoctorCheck> {
+  const name = 'API connectivity';
+  if (options.offline) {
+    return { name, status: 'skip', detail: 'offline mode' };
+  }
+
+  const settings = getApiSettings();
+  let provider;
+  try {
+    provider = createProvider(settings);
+  } catch (e) {
+    return { name, status: 'fail', detail: (e as Error).message };
+  }
+  if (!provider) {
+    return { name, status: 'fail', detail: `no API key for the ${settings.provider} provider (${formatApiKeyVariables(settings.provider)})` };
+  }
+
+  try {
+    const response = await provider.complete({
+      model: settings.model,
+      prompt: 'Reply with OK.',
+      maxTokens: 16,
+      timeoutMs: Math.min(getConfig().call_timeout_ms, API_CHECK_TIMEOUT_MS),
+    });
+    return { name, status: 'ok', detail: `${provider.name} answered with ${response.model}` };
+  } catch (e) {
+    const { kind, status } = classifyError(e);
+    const message = String((e as Error)?.message || e).slice(0, 200);
+    return { name, status: 'fail', detail: `${kind}${status ? ` (${status})` : ''} from ${provider.name} with ${settings.model}: ${message}` };
+  }
+}
+
+export async function runDoctorChecks(options: DoctorOptions): Promise<DoctorCheck[]> {
+  return [
+    ...checkHookRegistration(),
+    checkHookFiles(),
+    ...checkTemplates(),
+    checkConfig(),
+    ...checkPlaybooks(),
+    checkQueue(),
+    await checkApi(options),
+  ];
+}
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KeyPoint, createKeyPoint } from './common.js';
+import { appendHistory, diffKeyPoints, readHistory, rollbackKeyPoints } from './history.js';
+
+function setUp(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-history-'));
+  process.env['HOME'] = path.join(root, 'home');
+  process.env['CLAUDE_PROJECT_DIR'] = path.join(root, 'project');
+  return path.join(root, 'project', '.claude', 'playbook.history.jsonl');
+}
+
+function keyPoint(name: string, fields: Partial<KeyPoint> = {}): KeyPoint {
+  return createKeyPoint(name, `Lesson ${name}`, { created_at: '2025-01-01T00:00:00.000Z', ...fields });
+}
+
+test('revisions are numbered from the end of the log', () => {
+  const historyPath = setUp();
+  // Larger than one read chunk
+  const big = keyPoint('kpt_big', { text: 'x'.repeat(100 * 1024) });
+
+  assert.equal(appendHistory(historyPath, [], [big], { trigger: 'test' })!.revision, 1);
+  assert.equal(appendHistory(historyPath, [big], [], { trigger: 'test' })!.revision, 2);
+  assert.equal(appendHistory(historyPath, [], [], { trigger: 'test' }), null);
+
+  // A line torn by a crash is skipped
+  fs.appendFileSync(historyPath, '{"revision": 3, "chan');
+  fs.appendFileSync(historyPath, '\n');
+  assert.equal(appendHistory(historyPath, [], [keyPoint('kpt_a')], { trigger: 'test' })!.revision, 3);
+  assert.deepEqual(readHistory(historyPath).map(entry => entry.revision), [1, 2, 3]);
+});
+
+test('the oldest revisions are dropped past history_revisions', () => {
+  const historyPath = setUp();
+  process.env['AGENTIC_CONTEXT_HISTORY_REVISIONS'] = '10';
+  try {
+    let keyPoints: KeyPoint[] = [];
+    const revisions: number[][] = [];
+    for (let i = 1; i <= 12; i++) {
+      const next = [...keyPoints, keyPoint(`kpt_${i}`)];
+      appendHistory(historyPath, keyPoints, next, { trigger: 'test' });
+      keyPoints = next;
+      revisions.push(readHistory(historyPath).map(entry => entry.revision));
+    }
+
+    // Compacted once a tenth over the limit, not on every update
+    assert.deepEqual(revisions[10], [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
+    assert.deepEqual(revisions[11], [3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+    assert.equal(appendHistory(historyPath, keyPoints, [], { trigger: 'test' })!.revision, 13);
+  } finally {
+    delete process.env['AGENTIC_CONTEXT_HISTORY_REVISIONS'];
+  }
+});
+
+test('a rollback undoes every later change and restores removed key points', () => {
+  const historyPath = setUp();
+  const r1 = [keyPoint('kpt_a', { score: 1 }), keyPoint('kpt_b'), keyPoint('kpt_c')];
+  const r2 = [
+    keyPoint('kpt_a', { score: 3 }),
+    keyPoint('kpt_b', { text: 'Edited lesson' }),
+    keyPoint('kpt_c'),
+    keyPoint('kpt_d'),
+  ];
+  // kpt_c is merged into kpt_a and kpt_b deleted
+  const r3 = [keyPoint('kpt_a', { score: 3, merged_from: ['kpt_c'] }), keyPoint('kpt_d')];
+
+  appendHistory(historyPath, [], r1, { trigger: 'test' });
+  appendHistory(historyPath, r1, r2, { trigger: 'test' });
+  appendHistory(historyPath, r2, r3, { trigger: 'test' });
+  const history = readHistory(historyPath);
+
+  assert.deepEqual(history[2].changes.map(c => c.type).sort(), ['edited', 'merged', 'removed']);
+
+  const byName = (keyPoints: KeyPoint[]) => [...keyPoints].sort((a, b) => a.name.localeCompare(b.name));
+  assert.deepEqual(byName(rollbackKeyPoints(r3, history, 2)), byName(r2));
+  assert.deepEqual(byName(rollbackKeyPoints(r3, history, 1)), byName(r1));
+  assert.deepEqual(rollbackKeyPoints(r3, history, 0), []);
+  // Nothing left to undo
+  assert.deepEqual(diffKeyPoints(rollbackKeyPoints(r3, history, 3), r3), []);
+});
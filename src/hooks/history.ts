@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { KeyPoint } from './common.js';
+import { getConfig } from './config.js';
+import { writeFileAtomic } from './lock.js';
+import { DEFAULT_SCORING_POLICY, ScoringPolicy, shouldPrune } from './scoring.js';
+
+export type PlaybookChange =
+  | { type: 'added'; key_point: KeyPoint }
+  | { type: 'removed' | 'pruned' | 'merged'; key_point: KeyPoint; into?: string }
+  | { type: 'score_changed'; name: string; from: number; to: number }
+  | { type: 'edited'; name: string; before: KeyPoint; after: KeyPoint };
+
+export interface HistoryContext {
+  trigger: string;
+  session_id?: string;
+}
+
+export interface HistoryEntry extends HistoryContext {
+  revision: number;
+  timestamp: string;
+  changes: PlaybookChange[];
+}
+
+const READ_CHUNK_BYTES = 64 * 1024;
+
+export function getHistoryPath(playbookPath: string): string {
+  return path.join(path.dirname(playbookPath), 'playbook.history.jsonl');
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Rating counts, last_seen, provenance and the helpful sessions of a pending
+// key point move with every evaluation; like the score they are activity, not
+// an edit, and are not restored by a rollback
+function sameExceptActivity(a: KeyPoint, b: KeyPoint): boolean {
+  const strip = (kp: KeyPoint) => JSON.stringify({
+    ...kp, score: 0, ratings: undefined, last_seen: undefined, helpful_sessions: undefined, provenance: undefined,
+  });
+  return strip(a) === strip(b);
+}
+
+// A key point that disappeared is reported as pruned when the scoring policy
+// would have pruned it, and as removed otherwise
+export function diffKeyPoints(
+  before: KeyPoint[],
+  after: KeyPoint[],
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+): PlaybookChange[] {
+  const now = new Date();
+  const changes: PlaybookChange[] = [];
+  const beforeByName = new Map(before.map(kp => [kp.name, kp]));
+  const afterByName = new Map(after.map(kp => [kp.name, kp]));
+
+  for (const kp of after) {
+    const old = beforeByName.get(kp.name);
+    if (!old) {
+      changes.push({ type: 'added', key_point: clone(kp) });
+    } else if (!sameExceptActivity(old, kp)) {
+      changes.push({ type: 'edited', name: kp.name, before: clone(old), after: clone(kp) });
+    } else if (old.score !== kp.score) {
+      changes.push({ type: 'score_changed', name: kp.name, from: old.score, to: kp.score });
+    }
+  }
+
+  for (const kp of before) {
+    if (afterByName.has(kp.name)) continue;
+
+    const survivor = after.find(a => (a.merged_from || []).includes(kp.name));
+    if (survivor) {
+      changes.push({ type: 'merged', key_point: clone(kp), into: survivor.name });
+    } else if (shouldPrune(kp, policy, now)) {
+      changes.push({ type: 'pruned', key_point: clone(kp) });
+    } else {
+      changes.push({ type: 'removed', key_point: clone(kp) });
+    }
+  }
+
+  return changes;
+}
+
+export function readHistory(historyPath: string): HistoryEntry[] {
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of fs.readFileSync(historyPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch (e) {
+      // Skip a torn line rather than losing the whole log
+      continue;
+    }
+  }
+  return entries;
+}
+
+// Revision of the first or the last entry, reading only as much of that end
+// of the log as it takes to find a complete one
+function edgeRevision(historyPath: string, fromEnd: boolean): number | undefined {
+  let fd: number;
+  try {
+    fd = fs.openSync(historyPath, 'r');
+  } catch (e) {
+    return undefined;
+  }
+
+  try {
+    const size = fs.fstatSync(fd).size;
+    let buffer = Buffer.alloc(0);
+    let read = 0;
+    while (read < size) {
+      const length = Math.min(READ_CHUNK_BYTES, size - read);
+      const chunk = Buffer.alloc(length);
+      fs.readSync(fd, chunk, 0, length, fromEnd ? size - read - length : read);
+      buffer = fromEnd ? Buffer.concat([chunk, buffer]) : Buffer.concat([buffer, chunk]);
+      read += length;
+
+      // The line at the unread end may be cut off
+      const lines = buffer.toString('utf-8').split('\n');
+      const complete = read < size ? (fromEnd ? lines.slice(1) : lines.slice(0, -1)) : lines;
+      for (const line of fromEnd ? complete.reverse() : complete) {
+        if (!line.trim()) continue;
+        try {
+          const revision = JSON.parse(line).revision;
+          if (typeof revision === 'number') return revision;
+        } catch (e) {
+          // A torn line; keep looking
+        }
+      }
+    }
+    return undefined;
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Drop the oldest revisions once the log holds a tenth more than
+// history_revisions, so it is rewritten only every so many updates
+function compactHistory(historyPath: string, lastRevision: number): void {
+  const keep = getConfig().history_revisions;
+  const firstRevision = edgeRevision(historyPath, false);
+  if (!(keep > 0) || firstRevision === undefined || lastRevision - firstRevision + 1 <= keep + Math.ceil(keep / 10)) {
+    return;
+  }
+  const entries = readHistory(historyPath).filter(entry => entry.revision > lastRevision - keep);
+  writeFileAtomic(historyPath, entries.map(entry => JSON.stringify(entry) + '\n').join(''));
+}
+
+// Append one revision with the changes between `before` and `after`.
+// Must be called while holding the playbook lock.
+export function appendHistory(
+  historyPath: string,
+  before: KeyPoint[],
+  after: KeyPoint[],
+  context: HistoryContext,
+  policy: ScoringPolicy = DEFAULT_SCORING_POLICY
+): HistoryEntry | null {
+  const changes = diffKeyPoints(before, after, policy);
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const entry: HistoryEntry = {
+    revision: (edgeRevision(historyPath, true) ?? 0) + 1,
+    timestamp: new Date().toISOString(),
+    ...context,
+    changes,
+  };
+
+  fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+  fs.appendFileSync(historyPath, JSON.stringify(entry) + '\n', 'utf-8');
+  compactHistory(historyPath, entry.revision);
+  return entry;
+}
+
+export function changeMentions(change: PlaybookChange, name: string): boolean {
+  if ('key_point' in change) {
+    return change.key_point.name === name || ('into' in change && change.into === name);
+  }
+  return change.name === name;
+}
+
+// Undo a single change in place. Best effort: changes that no longer apply
+// (e.g. the key point was edited by hand since) are skipped.
+function revertChange(keyPoints: KeyPoint[], change: PlaybookChange): KeyPoint[] {
+  switch (change.type) {
+    case 'added':
+      return keyPoints.filter(kp => kp.name !== change.key_point.name);
+    case 'removed':
+    case 'pruned':
+    case 'merged':
+      // The survivor's score and merged_from are restored by its own 'edited' change
+      if (keyPoints.some(kp => kp.name === change.key_point.name)) {
+        return keyPoints;
+      }
+      return [...keyPoints, clone(change.key_point)];
+    case 'score_changed':
+      return keyPoints.map(kp => kp.name === change.name ? { ...kp, score: change.from } : kp);
+    case 'edited':
+      return keyPoints.map(kp => kp.name === change.name ? clone(change.before) : kp);
+  }
+}
+
+// Rebuild the key points as they were right after `revision` by undoing every
+// later revision, newest first.
+export function rollbackKeyPoints(keyPoints: KeyPoint[], history: HistoryEntry[], revision: number): KeyPoint[] {
+  let result = clone(keyPoints);
+  const later = history.filter(entry => entry.revision > revision).reverse();
+
+  for (const entry of later) {
+    for (const change of [...entry.changes].reverse()) {
+      result = revertChange(result, change);
+    }
+  }
+  return result;
+}
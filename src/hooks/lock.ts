@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getConfig } from './config.js';
+
+const LOCK_RETRY_MS = 50;
+// A lock older than this is considered abandoned even if its owner is alive
+const LOCK_STALE_MS = 5 * 60 * 1000;
+// Owners touch their lock this often, so a long hold (e.g. LLM calls while
+// curating the playbook) is not taken for abandoned
+const LOCK_HEARTBEAT_MS = 60 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    return (e as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function isStaleLock(lockPath: string): boolean {
+  try {
+    const stat = fs.statSync(lockPath);
+    if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+      return true;
+    }
+    const pid = parseInt(fs.readFileSync(lockPath, 'utf-8').split('\n')[0], 10);
+    return !isNaN(pid) && pid !== process.pid && !isProcessAlive(pid);
+  } catch (e) {
+    // Lock vanished between checks; let the caller retry
+    return false;
+  }
+}
+
+function createLockFile(lockPath: string): number {
+  const fd = fs.openSync(lockPath, 'wx');
+  fs.writeSync(fd, `${process.pid}\n${new Date().toISOString()}\n`);
+  return fd;
+}
+
+function keepLockFresh(lockPath: string): NodeJS.Timeout {
+  const heartbeat = setInterval(() => {
+    try {
+      const now = new Date();
+      fs.utimesSync(lockPath, now, now);
+    } catch (e) {
+      // Lock removed; the next acquisition attempt will sort it out
+    }
+  }, LOCK_HEARTBEAT_MS);
+  heartbeat.unref();
+  return heartbeat;
+}
+
+function releaseLockFile(fd: number, lockPath: string, heartbeat: NodeJS.Timeout): void {
+  clearInterval(heartbeat);
+  fs.closeSync(fd);
+  try {
+    fs.unlinkSync(lockPath);
+  } catch (e) {
+    // Already removed as stale by another process
+  }
+}
+
+export function getLockTimeout(): number {
+  return getConfig().lock_timeout_ms;
+}
+
+// Run `fn` while holding an exclusive `<target>.lock` file. Locks left behind
+// by crashed processes are broken automatically.
+export async function withFileLock<T>(targetPath: string, fn: () => T | Promise<T>): Promise<T> {
+  const lockPath = `${targetPath}.lock`;
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  const deadline = Date.now() + getLockTimeout();
+  let fd: number | null = null;
+
+  while (fd === null) {
+    try {
+      fd = createLockFile(lockPath);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw e;
+      }
+      if (isStaleLock(lockPath)) {
+        try {
+          fs.unlinkSync(lockPath);
+        } catch (unlinkError) {
+          // Another process broke the lock first
+        }
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for lock ${lockPath}`);
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  const heartbeat = keepLockFresh(lockPath);
+  try {
+    return await fn();
+  } finally {
+    releaseLockFile(fd, lockPath, heartbeat);
+  }
+}
+
+// Non-blocking variant of withFileLock() for long-lived owners such as the
+// reflection worker. Returns a release function, or null when another live
+// process holds the lock.
+export function tryFileLock(targetPath: string): (() => void) | null {
+  const lockPath = `${targetPath}.lock`;
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const fd = createLockFile(lockPath);
+      const heartbeat = keepLockFresh(lockPath);
+      return () => releaseLockFile(fd, lockPath, heartbeat);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw e;
+      }
+      if (!isStaleLock(lockPath)) {
+        return null;
+      }
+      try {
+        fs.unlinkSync(lockPath);
+      } catch (unlinkError) {
+        // Another process broke the lock first
+      }
+    }
+  }
+  return null;
+}
+
+// Write to a temp file in the same directory and rename it over the target, so
+// readers see either the old or the new content, never a partial file.
+export function writeFileAtomic(filePath: string, content: string): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+  try {
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+      fs.writeSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, filePath);
+  } catch (e) {
+    try {
+      fs.unlinkSync(tmpPath);
+    } catch (cleanupError) {
+      // Nothing to clean up
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { KeyPoint, Playbook, createKeyPoint, emptyPlaybook } from './common.js';
+import { mergePlaybooks } from './merge.js';
+
+function keyPoint(name: string, fields: Partial<KeyPoint> = {}): KeyPoint {
+  return createKeyPoint(name, `Lesson ${name}`, { created_at: '2025-01-01T00:00:00.000Z', ...fields });
+}
+
+function playbook(keyPoints: KeyPoint[], fields: Partial<Playbook> = {}): Playbook {
+  return { ...emptyPlaybook(), key_points: keyPoints, ...fields };
+}
+
+function byName(merged: Playbook, name: string): KeyPoint {
+  return merged.key_points.find(kp => kp.name === name)!;
+}
+
+test('activity on both sides adds up', () => {
+  const base = playbook([keyPoint('kpt_1', { score: 2, ratings: { helpful: 2, harmful: 0, neutral: 0 }, sessions: ['s1'] })]);
+  const ours = playbook([keyPoint('kpt_1', {
+    score: 4, ratings: { helpful: 4, harmful: 0, neutral: 0 }, sessions: ['s1', 's2'], last_seen: '2025-02-01T00:00:00.000Z',
+  })]);
+  const theirs = playbook([keyPoint('kpt_1', {
+    score: 1, ratings: { helpful: 2, harmful: 1, neutral: 0 }, sessions: ['s1', 's3'], last_seen: '2025-03-01T00:00:00.000Z',
+  })]);
+
+  const { playbook: merged, conflicts } = mergePlaybooks(base, ours, theirs);
+
+  const kp = byName(merged, 'kpt_1');
+  assert.equal(kp.score, 3);
+  assert.deepEqual(kp.ratings, { helpful: 4, harmful: 1, neutral: 0 });
+  assert.deepEqual(kp.sessions, ['s1', 's2', 's3']);
+  assert.equal(kp.last_seen, '2025-03-01T00:00:00.000Z');
+  assert.deepEqual(conflicts, []);
+});
+
+test('different key points added under the same name are both kept', () => {
+  const base = playbook([]);
+  const ours = playbook([keyPoint('kpt_2', { text: 'Use pnpm in this repo' })]);
+  const theirs = playbook([keyPoint('kpt_2', { text: 'Run the linter before pushing' })]);
+
+  const { playbook: merged, renamed, conflicts } = mergePlaybooks(base, ours, theirs);
+
+  assert.equal(renamed.length, 1);
+  assert.equal(renamed[0].from, 'kpt_2');
+  assert.deepEqual(merged.key_points.map(kp => [kp.name, kp.text]), [
+    ['kpt_2', 'Use pnpm in this repo'],
+    [renamed[0].to, 'Run the linter before pushing'],
+  ]);
+  assert.deepEqual(conflicts, []);
+});
+
+test('the same lesson added on both sides is kept once', () => {
+  const ours = playbook([keyPoint('kpt_3', { score: 1 })]);
+  const theirs = playbook([keyPoint('kpt_3', { score: 2 })]);
+
+  const { playbook: merged, renamed } = mergePlaybooks(playbook([]), ours, theirs);
+
+  assert.deepEqual(merged.key_points.map(kp => [kp.name, kp.score]), [['kpt_3', 3]]);
+  assert.deepEqual(renamed, []);
+});
+
+test('a deletion wins over activity but not over an edit', () => {
+  const base = playbook([keyPoint('kpt_4'), keyPoint('kpt_5')]);
+  const ours = playbook([keyPoint('kpt_4', { score: 3 }), keyPoint('kpt_5', { text: 'Edited lesson' })]);
+  const theirs = playbook([]);
+
+  const { playbook: merged, conflicts } = mergePlaybooks(base, ours, theirs);
+
+  assert.deepEqual(merged.key_points.map(kp => kp.name), ['kpt_5']);
+  assert.deepEqual(conflicts.map(c => [c.name, c.field, c.ours, c.theirs]), [['kpt_5', 'deleted', 'edited', 'deleted']]);
+
+  const reversed = mergePlaybooks(base, theirs, ours);
+  assert.deepEqual(reversed.playbook.key_points.map(kp => kp.name), ['kpt_5']);
+  assert.deepEqual(reversed.conflicts.map(c => [c.name, c.ours, c.theirs]), [['kpt_5', 'deleted', 'edited']]);
+});
+
+test('text changed differently on both sides resolves to ours', () => {
+  const base = playbook([keyPoint('kpt_6', { category: 'pattern' })]);
+  const ours = playbook([keyPoint('kpt_6', { text: 'Ours', category: 'pattern' })]);
+  const theirs = playbook([keyPoint('kpt_6', { text: 'Theirs', category: 'failure' })]);
+
+  const { playbook: merged, conflicts } = mergePlaybooks(base, ours, theirs);
+
+  // Only the text conflicts; the category was changed by theirs alone
+  const kp = byName(merged, 'kpt_6');
+  assert.equal(kp.text, 'Ours');
+  assert.equal(kp.category, 'failure');
+  assert.deepEqual(conflicts, [{ name: 'kpt_6', field: 'text', ours: 'Ours', theirs: 'Theirs', resolution: 'kept ours' }]);
+});
+
+test('rejections and merge records from both sides are combined', () => {
+  const merge = (from: string) => ({ into: 'kpt_7', from, text: `Lesson ${from}`, similarity: 0.9, method: 'similarity', merged_at: '2025-01-02T00:00:00.000Z' });
+  const base = playbook([keyPoint('kpt_7')]);
+  const ours = playbook([keyPoint('kpt_7')], {
+    rejected: [{ text: 'Ours rejected', rejected_at: '2025-01-03T00:00:00.000Z' }, { text: 'Both rejected', rejected_at: '2025-01-03T00:00:00.000Z' }],
+    merges: [merge('kpt_a'), merge('kpt_b')],
+  });
+  const theirs = playbook([keyPoint('kpt_7')], {
+    rejected: [{ text: 'Both rejected', rejected_at: '2025-01-04T00:00:00.000Z' }, { text: 'Theirs rejected', rejected_at: '2025-01-04T00:00:00.000Z' }],
+    merges: [merge('kpt_b'), merge('kpt_c')],
+  });
+
+  const { playbook: merged } = mergePlaybooks(base, ours, theirs);
+
+  assert.deepEqual(merged.rejected!.map(r => r.text), ['Ours rejected', 'Both rejected', 'Theirs rejected']);
+  assert.deepEqual(merged.merges!.map(m => m.from), ['kpt_a', 'kpt_b', 'kpt_c']);
+});
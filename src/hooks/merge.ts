@@ -0,0 +1,259 @@
+import { KeyPoint, MergeRecord, Playbook, PromotionCandidate, generateKeypointName } from './common.js';
+import { PLAYBOOK_VERSION } from './migrations.js';
+import { earliest, latest } from './dedupe.js';
+import { combineReviewState } from './review.js';
+import { capProvenance } from './provenance.js';
+
+// Three-way merge of playbook.json, e.g. as a git merge driver. Key points
+// are matched by name across the common ancestor (base) and both sides.
+// Activity merges without conflict: score and rating changes from both sides
+// add up, sessions are combined and timestamps span both. Content (text,
+// category, pin, tags) merges field by field; only a field changed
+// differently on both sides is a conflict, resolved in favor of ours.
+
+export interface MergeConflict {
+  name: string;
+  field: string;
+  ours: unknown;
+  theirs: unknown;
+  resolution: string;
+}
+
+export interface PlaybookMergeResult {
+  playbook: Playbook;
+  conflicts: MergeConflict[];
+  // Different key points added on both sides under the same name; theirs
+  // gets a new name
+  renamed: { from: string; to: string }[];
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// The side that changed wins; a conflict when both changed it differently
+function mergeValue<T>(base: T, ours: T, theirs: T): { value: T; conflict: boolean } {
+  if (same(ours, theirs) || same(base, theirs)) {
+    return { value: ours, conflict: false };
+  }
+  if (same(base, ours)) {
+    return { value: theirs, conflict: false };
+  }
+  return { value: ours, conflict: true };
+}
+
+// Items added on either side are kept; items removed on either side are dropped
+function mergeSet(base: string[] = [], ours: string[] = [], theirs: string[] = []): string[] {
+  return [...new Set([...ours, ...theirs])]
+    .filter(item => !base.includes(item) || (ours.includes(item) && theirs.includes(item)));
+}
+
+function delta(base: number | undefined, ours: number | undefined, theirs: number | undefined): number {
+  const b = base || 0;
+  return b + ((ours || 0) - b) + ((theirs || 0) - b);
+}
+
+// Text, category, pin and tags; score and the other activity fields change
+// with every session and do not count as edits
+function sameContent(a: KeyPoint, b: KeyPoint): boolean {
+  return a.text === b.text &&
+         same(a.category, b.category) &&
+         Boolean(a.pinned) === Boolean(b.pinned) &&
+         same([...(a.tags || [])].sort(), [...(b.tags || [])].sort());
+}
+
+function mergeKeyPoint(base: KeyPoint, ours: KeyPoint, theirs: KeyPoint, conflicts: MergeConflict[]): KeyPoint {
+  // Unknown fields: ours first
+  const merged: KeyPoint = { ...base, ...theirs, ...ours };
+
+  const content: [keyof KeyPoint, unknown, unknown, unknown][] = [
+    ['text', base.text, ours.text, theirs.text],
+    ['category', base.category, ours.category, theirs.category],
+    ['pinned', Boolean(base.pinned), Boolean(ours.pinned), Boolean(theirs.pinned)],
+  ];
+  for (const [field, baseValue, oursValue, theirsValue] of content) {
+    const result = mergeValue(baseValue, oursValue, theirsValue);
+    (merged as any)[field] = result.value;
+    if (result.conflict) {
+      conflicts.push({ name: ours.name, field, ours: oursValue, theirs: theirsValue, resolution: 'kept ours' });
+    }
+  }
+  if (!merged.pinned) {
+    delete merged.pinned;
+  }
+  if (merged.category === undefined) {
+    delete merged.category;
+  }
+
+  merged.score = delta(base.score, ours.score, theirs.score);
+  if (ours.ratings || theirs.ratings) {
+    const zero = { helpful: 0, harmful: 0, neutral: 0 };
+    const [b, o, t] = [base.ratings || zero, ours.ratings || zero, theirs.ratings || zero];
+    merged.ratings = {
+      helpful: delta(b.helpful, o.helpful, t.helpful),
+      harmful: delta(b.harmful, o.harmful, t.harmful),
+      neutral: delta(b.neutral, o.neutral, t.neutral),
+    };
+  }
+  if (ours.tags || theirs.tags) {
+    merged.tags = mergeSet(base.tags, ours.tags, theirs.tags);
+  }
+  if (ours.sessions || theirs.sessions) {
+    merged.sessions = [...new Set([...(ours.sessions || []), ...(theirs.sessions || [])])];
+  }
+  // Start from ours alone; the spread above may have taken theirs
+  merged.status = ours.status;
+  merged.helpful_sessions = ours.helpful_sessions;
+  combineReviewState(merged, theirs);
+  if (ours.provenance || theirs.provenance) {
+    merged.provenance = capProvenance([...(ours.provenance || []), ...(theirs.provenance || [])]);
+  }
+  if (ours.merged_from || theirs.merged_from) {
+    merged.merged_from = [...new Set([...(ours.merged_from || []), ...(theirs.merged_from || [])])];
+  }
+  const createdAt = earliest(ours.created_at, theirs.created_at);
+  if (createdAt) {
+    merged.created_at = createdAt;
+  }
+  const lastSeen = latest(ours.last_seen, theirs.last_seen);
+  if (lastSeen) {
+    merged.last_seen = lastSeen;
+  }
+  return merged;
+}
+
+// Base for a key point both sides added independently: nothing learned yet
+function emptyBase(kp: KeyPoint): KeyPoint {
+  return { name: kp.name, text: kp.text, score: 0 };
+}
+
+function mergeKeyPoints(base: KeyPoint[], ours: KeyPoint[], theirs: KeyPoint[], result: PlaybookMergeResult): KeyPoint[] {
+  const baseByName = new Map(base.map(kp => [kp.name, kp]));
+  const theirsByName = new Map(theirs.map(kp => [kp.name, kp]));
+  const oursByName = new Map(ours.map(kp => [kp.name, kp]));
+  const merged: KeyPoint[] = [];
+
+  for (const kp of ours) {
+    const old = baseByName.get(kp.name);
+    const other = theirsByName.get(kp.name);
+
+    if (old && other) {
+      merged.push(mergeKeyPoint(old, kp, other, result.conflicts));
+    } else if (old) {
+      // Deleted, pruned or merged away by theirs; keep it only if ours edited it
+      if (!sameContent(old, kp)) {
+        merged.push(kp);
+        result.conflicts.push({ name: kp.name, field: 'deleted', ours: 'edited', theirs: 'deleted', resolution: 'kept the edited key point' });
+      }
+    } else if (other && other.text === kp.text) {
+      // The same lesson learned on both sides
+      merged.push(mergeKeyPoint(emptyBase(kp), kp, other, result.conflicts));
+    } else {
+      merged.push(kp);
+    }
+  }
+
+  const names = new Set([...merged.map(kp => kp.name), ...theirs.map(kp => kp.name), ...base.map(kp => kp.name)]);
+  for (const kp of theirs) {
+    const old = baseByName.get(kp.name);
+    const own = oursByName.get(kp.name);
+
+    if (old && !own) {
+      // Deleted by ours; keep it only if theirs edited it
+      if (!sameContent(old, kp)) {
+        merged.push(kp);
+        result.conflicts.push({ name: kp.name, field: 'deleted', ours: 'deleted', theirs: 'edited', resolution: 'kept the edited key point' });
+      }
+      continue;
+    }
+    if (old || (own && own.text === kp.text)) {
+      continue;
+    }
+
+    // Added by theirs only. Legacy sequential names collide with different
+    // key points added by ours; exact duplicates of ours are folded in.
+    const duplicate = merged.find(m => m.text === kp.text);
+    if (duplicate) {
+      Object.assign(duplicate, mergeKeyPoint(emptyBase(duplicate), duplicate, { ...kp, name: duplicate.name }, result.conflicts));
+    } else if (own) {
+      const name = generateKeypointName(names, kp.text);
+      names.add(name);
+      merged.push({ ...kp, name });
+      result.renamed.push({ from: kp.name, to: name });
+    } else {
+      merged.push(kp);
+    }
+  }
+
+  return merged;
+}
+
+function mergeMergeRecords(ours: MergeRecord[] = [], theirs: MergeRecord[] = []): MergeRecord[] | undefined {
+  const seen = new Set(ours.map(record => JSON.stringify(record)));
+  const records = [...ours, ...theirs.filter(record => !seen.has(JSON.stringify(record)))];
+  return records.length > 0 ? records : undefined;
+}
+
+function mergeCandidates(
+  base: PromotionCandidate[] = [],
+  ours: PromotionCandidate[] = [],
+  theirs: PromotionCandidate[] = []
+): PromotionCandidate[] | undefined {
+  const texts = mergeSet(base.map(c => c.text), ours.map(c => c.text), theirs.map(c => c.text));
+  const candidates = texts.map(text => {
+    const a = ours.find(c => c.text === text);
+    const b = theirs.find(c => c.text === text);
+    if (!a || !b) {
+      return (a || b)!;
+    }
+    return {
+      ...b,
+      ...a,
+      projects: [...new Set([...a.projects, ...b.projects])],
+      first_seen: earliest(a.first_seen, b.first_seen) || a.first_seen,
+      last_seen: latest(a.last_seen, b.last_seen) || a.last_seen,
+    };
+  });
+  return candidates.length > 0 ? candidates : undefined;
+}
+
+// All three playbooks must already be normalized (see readPlaybookFile)
+export function mergePlaybooks(base: Playbook, ours: Playbook, theirs: Playbook): PlaybookMergeResult {
+  const result: PlaybookMergeResult = {
+    playbook: { ...theirs, ...ours, version: PLAYBOOK_VERSION },
+    conflicts: [],
+    renamed: [],
+  };
+
+  result.playbook.key_points = mergeKeyPoints(base.key_points, ours.key_points, theirs.key_points, result);
+  result.playbook.last_updated = latest(ours.last_updated, theirs.last_updated);
+
+  const merges = mergeMergeRecords(ours.merges, theirs.merges);
+  if (merges) {
+    result.playbook.merges = merges;
+  }
+  const rejected = [...(ours.rejected || [])];
+  for (const record of theirs.rejected || []) {
+    if (!rejected.some(r => r.text === record.text)) {
+      rejected.push(record);
+    }
+  }
+  if (rejected.length > 0) {
+    result.playbook.rejected = rejected;
+  }
+  const candidates = mergeCandidates(base.promotion_candidates, ours.promotion_candidates, theirs.promotion_candidates);
+  if (candidates) {
+    result.playbook.promotion_candidates = candidates;
+  } else {
+    delete result.playbook.promotion_candidates;
+  }
+
+  return result;
+}
+
+export function formatMergeConflict(conflict: MergeConflict): string {
+  if (conflict.field === 'deleted') {
+    return `${conflict.name}: deleted by ${conflict.ours === 'deleted' ? 'ours' : 'theirs'} but edited by the other side; ${conflict.resolution}`;
+  }
+  return `${conflict.name}: ${conflict.field} changed on both sides (ours ${JSON.stringify(conflict.ours)}, theirs ${JSON.stringify(conflict.theirs)}); ${conflict.resolution}`;
+}
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getPlaybookPath, readPlaybookFile, updatePlaybookFile } from './common.js';
+import { PLAYBOOK_VERSION, PlaybookVersionError, migratePlaybook } from './migrations.js';
+
+// As written by the 1.x hooks: no metadata, and in the oldest files plain strings
+const LEGACY = {
+  version: '1.0',
+  last_updated: '2024-11-02T10:00:00.000Z',
+  key_points: [
+    { name: 'kpt_001', text: 'Run the tests before committing', score: 2 },
+    'Use pnpm in this repository',
+    null,
+  ],
+};
+
+const CURRENT = {
+  version: '2.0',
+  last_updated: '2025-05-01T00:00:00.000Z',
+  key_points: [{
+    name: 'kpt_3f9a0c1e',
+    text: 'Run the tests before committing',
+    score: 1,
+    created_at: '2025-04-01T00:00:00.000Z',
+    last_seen: '2025-04-20T00:00:00.000Z',
+    ratings: { helpful: 1, harmful: 0, neutral: 0 },
+    sessions: ['s1'],
+    tags: ['ci'],
+    pinned: true,
+  }],
+  merges: [],
+};
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function writeFixture(data: object): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-migrations-'));
+  const playbookPath = path.join(root, 'playbook.json');
+  fs.writeFileSync(playbookPath, JSON.stringify(data));
+  return playbookPath;
+}
+
+test('a 1.0 playbook is upgraded with metadata and named key points', () => {
+  const data = clone(LEGACY);
+  assert.deepEqual(migratePlaybook(data), ['1.0 -> 2.0']);
+  assert.equal(data.version, PLAYBOOK_VERSION);
+
+  const playbook = readPlaybookFile(writeFixture(LEGACY));
+  assert.equal(playbook.version, '2.0');
+  assert.equal(playbook.key_points.length, 2);
+
+  const [named, plain] = playbook.key_points;
+  assert.deepEqual(named, {
+    name: 'kpt_001',
+    text: 'Run the tests before committing',
+    score: 2,
+    created_at: '2024-11-02T10:00:00.000Z',
+    last_seen: null,
+    ratings: { helpful: 0, harmful: 0, neutral: 0 },
+    sessions: [],
+    tags: [],
+  });
+  assert.equal(plain.text, 'Use pnpm in this repository');
+  assert.match(plain.name, /^kpt_[0-9a-f]{8}$/);
+  assert.equal(plain.score, 0);
+});
+
+test('files without a version are read as 1.0', () => {
+  const { version: _version, ...unversioned } = clone(LEGACY);
+  assert.deepEqual(migratePlaybook(unversioned), ['1.0 -> 2.0']);
+});
+
+test('a current playbook is left as it is', () => {
+  const data = clone(CURRENT);
+  assert.deepEqual(migratePlaybook(data), []);
+  assert.deepEqual(data, CURRENT);
+  assert.deepEqual(readPlaybookFile(writeFixture(CURRENT)), CURRENT);
+});
+
+test('a newer playbook is refused and never rewritten', async () => {
+  const newer = { ...clone(CURRENT), version: '3.0', future_field: { kept: true } };
+  assert.throws(() => migratePlaybook(clone(newer)), PlaybookVersionError);
+  assert.throws(() => readPlaybookFile(writeFixture(newer)), /Unsupported playbook version 3\.0/);
+
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-migrations-'));
+  process.env['HOME'] = path.join(root, 'home');
+  process.env['CLAUDE_PROJECT_DIR'] = path.join(root, 'project');
+  fs.mkdirSync(path.join(root, 'project', '.claude'), { recursive: true });
+  const playbookPath = getPlaybookPath('project');
+  fs.writeFileSync(playbookPath, JSON.stringify(newer));
+
+  await assert.rejects(updatePlaybookFile('project', playbook => {
+    playbook.key_points = [];
+  }), PlaybookVersionError);
+  assert.deepEqual(JSON.parse(fs.readFileSync(playbookPath, 'utf-8')), newer);
+});
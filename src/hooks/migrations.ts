@@ -0,0 +1,65 @@
+// Versioned upgrades of playbook.json. Each step upgrades the raw file data
+// from one version to the next, in place; fields a step does not know about
+// are carried over untouched.
+
+export const PLAYBOOK_VERSION = '2.0';
+
+// The file was written by a newer (or unknown) version; it must not be
+// rewritten, because that would drop what this version cannot read
+export class PlaybookVersionError extends Error {}
+
+interface Migration {
+  from: string;
+  to: string;
+  migrate(data: any): void;
+}
+
+// 1.0: key points are { name, text, score } objects or, in the oldest files,
+// plain strings. 2.0 adds metadata; creation time is unknown for old key
+// points, so the file's last update is the best available estimate.
+// Missing names are assigned afterwards by normalizePlaybook().
+function addKeyPointMetadata(data: any): void {
+  const createdAt = typeof data.last_updated === 'string' ? data.last_updated : null;
+
+  data.key_points = data.key_points
+    .map((item: any) => (typeof item === 'string' ? { text: item, score: 0 } : item))
+    .filter((item: any) => item && typeof item === 'object');
+
+  for (const kp of data.key_points) {
+    kp.created_at = kp.created_at ?? createdAt;
+    kp.last_seen = kp.last_seen ?? null;
+    kp.ratings = kp.ratings ?? { helpful: 0, harmful: 0, neutral: 0 };
+    kp.sessions = kp.sessions ?? [];
+    kp.tags = kp.tags ?? [];
+  }
+}
+
+const MIGRATIONS: Migration[] = [
+  { from: '1.0', to: '2.0', migrate: addKeyPointMetadata },
+];
+
+// Upgrade raw playbook data to PLAYBOOK_VERSION. Files without a version are
+// treated as 1.0. Returns the steps applied, e.g. ['1.0 -> 2.0'].
+export function migratePlaybook(data: any): string[] {
+  if (!Array.isArray(data.key_points)) {
+    data.key_points = [];
+  }
+
+  let version = typeof data.version === 'string' ? data.version : '1.0';
+  const applied: string[] = [];
+
+  while (version !== PLAYBOOK_VERSION) {
+    const step = MIGRATIONS.find(m => m.from === version);
+    if (!step) {
+      throw new PlaybookVersionError(
+        `Unsupported playbook version ${version} (this version of memoria reads up to ${PLAYBOOK_VERSION})`
+      );
+    }
+    step.migrate(data);
+    applied.push(`${step.from} -> ${step.to}`);
+    version = step.to;
+  }
+
+  data.version = version;
+  return applied;
+}
@@ -1,12 +1,10 @@
 import * as fs from 'fs';
 import {
-  loadPlaybook,
-  savePlaybook,
-  loadTranscript,
-  extractKeypoints,
-  updatePlaybookData,
-  clearSession,
+  runReflection,
 } from './common.js';
+import { markCompacted } from './session_state.js';
+import { enqueueReflection, isQueueEnabled, startWorker } from './queue.js';
+import { useHookDeadline } from './retry.js';
 
 async function main() {
   let stdinBuffer: string;
@@ -39,24 +37,17 @@ async function main() {
     return;
   }
 
-  const messages = loadTranscript(transcriptPath);
+  // The next injection point brings back what the summary drops
+  await markCompacted(inputData.session_id || 'unknown');
 
-  if (!messages || messages.length === 0) {
-    process.exit(0);
-    return;
+  // Queue the reflection rather than holding up compaction on the API call
+  if (isQueueEnabled()) {
+    enqueueReflection(transcriptPath, 'precompact_reflection', inputData.session_id);
+    startWorker();
+  } else {
+    useHookDeadline();
+    await runReflection(transcriptPath, 'precompact_reflection', inputData.session_id);
   }
-
-  let playbook = loadPlaybook();
-  const extractionResult = await extractKeypoints(
-    messages,
-    playbook,
-    'precompact_reflection'
-  );
-
-  playbook = updatePlaybookData(playbook, extractionResult);
-  savePlaybook(playbook);
-
-  clearSession();
 }
 
 main().catch((error) => {
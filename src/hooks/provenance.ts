@@ -0,0 +1,92 @@
+import type { ExtractionResult, KeyPoint } from './common.js';
+
+// Where a key point came from and why it was rated: one record per reflection
+// that learned it or found it helpful or harmful. Neutral ratings ("not
+// relevant to this session") are not recorded.
+
+// Supporting evidence cited by the reflector
+export interface Evidence {
+  // Short quote from the trajectory
+  quote?: string;
+  // Index of the message in the part of the transcript that was reflected on
+  message?: number;
+}
+
+export type ProvenanceEvent = 'learned' | 'helpful' | 'harmful';
+
+export interface ProvenanceRecord extends Evidence {
+  event: ProvenanceEvent;
+  at: string;
+  session_id?: string;
+  // session_end_reflection, precompact_reflection, ...
+  trigger?: string;
+  model?: string;
+}
+
+// The reflection run a result came from
+export interface ReflectionSource {
+  trigger: string;
+  model: string;
+}
+
+// Records kept per key point; the first one (how it was learned) is always kept
+export const MAX_PROVENANCE_RECORDS = 20;
+
+export const MAX_QUOTE_CHARS = 300;
+
+export function addProvenance(kp: KeyPoint, record: ProvenanceRecord): void {
+  kp.provenance = capProvenance([...(kp.provenance || []), record]);
+}
+
+// Oldest first, without duplicates, capped to the first record plus the latest
+export function capProvenance(records: ProvenanceRecord[]): ProvenanceRecord[] {
+  const seen = new Set<string>();
+  const unique = records
+    .filter(record => {
+      const key = JSON.stringify(record);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => String(a.at).localeCompare(String(b.at)));
+
+  if (unique.length <= MAX_PROVENANCE_RECORDS) {
+    return unique;
+  }
+  return [unique[0], ...unique.slice(unique.length - (MAX_PROVENANCE_RECORDS - 1))];
+}
+
+// Message indices cited for one window are relative to that window; shift
+// them so they point into the whole reflected part of the transcript
+export function offsetEvidence(result: ExtractionResult, offset: number): ExtractionResult {
+  if (offset === 0) {
+    return result;
+  }
+  const shift = <T extends { evidence?: Evidence }>(item: T): T =>
+    item.evidence && item.evidence.message !== undefined
+      ? { ...item, evidence: { ...item.evidence, message: item.evidence.message + offset } }
+      : item;
+
+  return {
+    ...result,
+    new_key_points: (result.new_key_points || []).map(item => (typeof item === 'string' ? item : shift(item))),
+    evaluations: (result.evaluations || []).map(shift),
+  };
+}
+
+export function formatProvenanceRecord(record: ProvenanceRecord): string {
+  const source = [
+    record.session_id ? `session ${record.session_id}` : '',
+    record.trigger || '',
+    record.model || '',
+  ].filter(Boolean).join(', ');
+
+  const lines = [`${record.at}  ${record.event}${source ? `  (${source})` : ''}`];
+  if (record.message !== undefined) {
+    lines.push(`    message #${record.message}`);
+  }
+  if (record.quote) {
+    lines.push(`    "${record.quote}"`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,164 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { formatApiKeyVariables, getApiSettings } from './common.js';
+import { createAnthropicProvider, createOpenAICompatibleProvider, createProvider } from './providers.js';
+
+interface Captured {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+let server: http.Server;
+let baseUrl: string;
+let captured: Captured[] = [];
+let replyBody: any = {};
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      captured.push({ url: req.url!, headers: req.headers, body: JSON.parse(Buffer.concat(chunks).toString('utf-8')) });
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(replyBody));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+const SCHEMA = { name: 'record', schema: { type: 'object', properties: { ok: { type: 'boolean' } } } };
+
+function anthropic() {
+  return createAnthropicProvider({ provider: 'anthropic', apiKey: 'ant-key', model: 'claude-test', baseUrl });
+}
+
+function openai() {
+  return createOpenAICompatibleProvider({ provider: 'openai', apiKey: 'oai-key', model: 'gpt-test', baseUrl: `${baseUrl}/v1/` });
+}
+
+function anthropicReply(content: object[]): object {
+  return {
+    id: 'msg_1', type: 'message', role: 'assistant', model: 'claude-test-2025', content, stop_reason: 'end_turn',
+    usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 7, cache_creation_input_tokens: 3 },
+  };
+}
+
+test('anthropic: cached system prompt, thinking budget and text response', async () => {
+  captured = [];
+  replyBody = anthropicReply([{ type: 'thinking', thinking: '...', signature: 's' }, { type: 'text', text: 'Hello' }, { type: 'text', text: ' there' }]);
+
+  const response = await anthropic().complete({
+    model: 'claude-test', prompt: 'Hi', system: 'Playbook', cacheSystem: true, maxTokens: 100, thinkingBudget: 1024, responseSchema: SCHEMA,
+  });
+
+  const [{ url, headers, body }] = captured;
+  assert.equal(url, '/v1/messages');
+  assert.equal(headers['x-api-key'], 'ant-key');
+  assert.equal(body.max_tokens, 1124);
+  assert.deepEqual(body.system, [{ type: 'text', text: 'Playbook', cache_control: { type: 'ephemeral' } }]);
+  assert.deepEqual(body.messages, [{ role: 'user', content: 'Hi' }]);
+  assert.deepEqual(body.thinking, { type: 'enabled', budget_tokens: 1024 });
+  // A forced tool call is not allowed together with thinking
+  assert.equal(body.tools, undefined);
+
+  assert.deepEqual(response, {
+    text: 'Hello there',
+    model: 'claude-test-2025',
+    usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 7, cache_creation_input_tokens: 3 },
+  });
+});
+
+test('anthropic: structured output through a forced tool call', async () => {
+  captured = [];
+  replyBody = anthropicReply([{ type: 'tool_use', id: 'tu_1', name: 'record', input: { ok: true } }]);
+
+  const response = await anthropic().complete({ model: 'claude-test', prompt: 'Hi', maxTokens: 100, responseSchema: SCHEMA });
+
+  const [{ body }] = captured;
+  assert.equal(body.max_tokens, 100);
+  assert.equal(body.system, undefined);
+  assert.deepEqual(body.tools, [{ name: 'record', description: 'Record the result in the required format.', input_schema: SCHEMA.schema }]);
+  assert.deepEqual(body.tool_choice, { type: 'tool', name: 'record' });
+  assert.equal(response.text, '{"ok":true}');
+});
+
+test('openai: chat completions request and usage with cached tokens', async () => {
+  captured = [];
+  replyBody = {
+    model: 'gpt-test-0125',
+    choices: [{ message: { role: 'assistant', content: '{"ok":true}' } }],
+    usage: { prompt_tokens: 20, completion_tokens: 4, prompt_tokens_details: { cached_tokens: 15 } },
+  };
+
+  const response = await openai().complete({
+    model: 'gpt-test', prompt: 'Hi', system: 'Playbook', cacheSystem: true, maxTokens: 50, thinkingBudget: 1024, responseSchema: SCHEMA,
+  });
+
+  const [{ url, headers, body }] = captured;
+  assert.equal(url, '/v1/chat/completions');
+  assert.equal(headers['authorization'], 'Bearer oai-key');
+  assert.deepEqual(body, {
+    model: 'gpt-test',
+    max_tokens: 50,
+    messages: [{ role: 'system', content: 'Playbook' }, { role: 'user', content: 'Hi' }],
+    response_format: { type: 'json_schema', json_schema: { name: 'record', schema: SCHEMA.schema } },
+  });
+  assert.deepEqual(response, {
+    text: '{"ok":true}',
+    model: 'gpt-test-0125',
+    usage: { input_tokens: 5, output_tokens: 4, cache_read_input_tokens: 15, cache_creation_input_tokens: 0 },
+  });
+});
+
+test('openai: a local server needs no key and may omit usage', async () => {
+  captured = [];
+  replyBody = { choices: [] };
+
+  const provider = createOpenAICompatibleProvider({ provider: 'openai', apiKey: undefined, model: 'llama', baseUrl: `${baseUrl}/v1` });
+  const response = await provider.complete({ model: 'llama', prompt: 'Hi', maxTokens: 10 });
+
+  assert.equal(captured[0].headers['authorization'], undefined);
+  assert.deepEqual(response, {
+    text: '',
+    model: 'llama',
+    usage: { input_tokens: 0, output_tokens: 0, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 },
+  });
+});
+
+test('the API key is looked up in the variables of the configured provider', () => {
+  const names = ['AGENTIC_CONTEXT_API_KEY', 'ANTHROPIC_AUTH_TOKEN', 'ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'AGENTIC_CONTEXT_PROVIDER'];
+  const saved = names.map(name => process.env[name]);
+  names.forEach(name => delete process.env[name]);
+  process.env['HOME'] = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-providers-'));
+  process.env['CLAUDE_PROJECT_DIR'] = process.env['HOME'];
+  try {
+    process.env['OPENAI_API_KEY'] = 'oai-key';
+    assert.equal(getApiSettings().apiKey, undefined);
+    assert.equal(createProvider(getApiSettings()), null);
+    assert.equal(formatApiKeyVariables('anthropic'), 'AGENTIC_CONTEXT_API_KEY, ANTHROPIC_AUTH_TOKEN or ANTHROPIC_API_KEY');
+
+    process.env['AGENTIC_CONTEXT_PROVIDER'] = 'openai';
+    assert.equal(getApiSettings().apiKey, 'oai-key');
+    assert.equal(formatApiKeyVariables('openai'), 'AGENTIC_CONTEXT_API_KEY or OPENAI_API_KEY');
+  } finally {
+    names.forEach((name, i) => {
+      if (saved[i] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = saved[i];
+      }
+    });
+  }
+});
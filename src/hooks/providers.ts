@@ -0,0 +1,274 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import Anthropic from '@anthropic-ai/sdk';
+
+export interface CompletionRequest {
+  model: string;
+  prompt: string;
+  // Stable prefix (e.g. the playbook); cached when the provider supports it
+  system?: string;
+  cacheSystem?: boolean;
+  maxTokens: number;
+  // Extended thinking budget; ignored by providers without thinking support
+  thinkingBudget?: number;
+  // JSON schema the response must follow. Providers with structured output
+  // return the JSON as the response text; others ignore it.
+  responseSchema?: { name: string; schema: object };
+  // Abort the call after this long; classifyError() reports the error as a
+  // timeout
+  timeoutMs?: number;
+}
+
+export interface CompletionUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens: number;
+  cache_creation_input_tokens: number;
+}
+
+export interface CompletionResponse {
+  text: string;
+  model: string;
+  usage: CompletionUsage;
+}
+
+export interface LlmProvider {
+  name: string;
+  supportsThinking: boolean;
+  supportsCaching: boolean;
+  supportsStructuredOutput: boolean;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+export interface ProviderSettings {
+  provider: string;
+  apiKey: string | undefined;
+  model: string;
+  baseUrl: string | undefined;
+  scriptFile?: string;
+}
+
+function emptyUsage(): CompletionUsage {
+  return { input_tokens: 0, output_tokens: 0, cache_read_input_tokens: 0, cache_creation_input_tokens: 0 };
+}
+
+export function createAnthropicProvider(settings: ProviderSettings): LlmProvider {
+  const client = new Anthropic({
+    apiKey: settings.apiKey,
+    baseURL: settings.baseUrl, // SDK uses baseURL not base_url
+    // Retries are handled by completeWithRetry()
+    maxRetries: 0,
+  });
+
+  return {
+    name: 'anthropic',
+    supportsThinking: true,
+    supportsCaching: true,
+    supportsStructuredOutput: true,
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const thinkingBudget = request.thinkingBudget || 0;
+      const apiParams: any = {
+        model: request.model,
+        // max_tokens must leave room for the thinking budget
+        max_tokens: request.maxTokens + thinkingBudget,
+        messages: [{ role: 'user', content: request.prompt }],
+      };
+
+      if (request.system) {
+        apiParams.system = [{
+          type: 'text',
+          text: request.system,
+          ...(request.cacheSystem ? { cache_control: { type: 'ephemeral' } } : {}),
+        }];
+      }
+
+      if (thinkingBudget > 0) {
+        apiParams.thinking = {
+          type: 'enabled',
+          budget_tokens: thinkingBudget,
+        };
+      }
+
+      // Structured output through a forced tool call; the API does not allow
+      // forcing a tool together with extended thinking
+      const schema = thinkingBudget > 0 ? undefined : request.responseSchema;
+      if (schema) {
+        apiParams.tools = [{
+          name: schema.name,
+          description: 'Record the result in the required format.',
+          input_schema: schema.schema,
+        }];
+        apiParams.tool_choice = { type: 'tool', name: schema.name };
+      }
+
+      const response: any = await client.messages.create(
+        apiParams,
+        request.timeoutMs ? { timeout: request.timeoutMs } : undefined
+      );
+      const toolUse = schema && response.content.find((block: any) => block.type === 'tool_use');
+      const text = toolUse
+        ? JSON.stringify(toolUse.input)
+        : response.content
+            .filter((block: any) => block.type === 'text')
+            .map((block: any) => block.text)
+            .join('');
+
+      const usage = response.usage || {};
+      return {
+        text,
+        model: response.model || request.model,
+        usage: {
+          input_tokens: usage.input_tokens || 0,
+          output_tokens: usage.output_tokens || 0,
+          cache_read_input_tokens: usage.cache_read_input_tokens || 0,
+          cache_creation_input_tokens: usage.cache_creation_input_tokens || 0,
+        },
+      };
+    },
+  };
+}
+
+export function postJson(url: string, headers: Record<string, string>, body: any, timeoutMs?: number): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const payload = JSON.stringify(body);
+    const transport = target.protocol === 'http:' ? http : https;
+
+    const req = transport.request(target, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'content-length': Buffer.byteLength(payload),
+        ...headers,
+      },
+    }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => {
+        const text = Buffer.concat(chunks).toString('utf-8');
+        if (!res.statusCode || res.statusCode >= 400) {
+          const error: any = new Error(`HTTP ${res.statusCode} from ${target.host}: ${text.slice(0, 500)}`);
+          error.status = res.statusCode;
+          error.headers = res.headers;
+          reject(error);
+          return;
+        }
+        try {
+          resolve(JSON.parse(text));
+        } catch (e) {
+          reject(new Error(`Invalid JSON from ${target.host}: ${text.slice(0, 200)}`));
+        }
+      });
+    });
+
+    if (timeoutMs && timeoutMs > 0) {
+      req.setTimeout(timeoutMs, () => {
+        const error: any = new Error(`Request to ${target.host} timed out after ${timeoutMs}ms`);
+        error.code = 'ETIMEDOUT';
+        req.destroy(error);
+      });
+    }
+
+    req.on('error', reject);
+    req.end(payload);
+  });
+}
+
+// OpenAI chat-completions API, as served by OpenAI, vLLM, Ollama, llama.cpp
+// server and similar. No extended thinking; caching is left to the server.
+export function createOpenAICompatibleProvider(settings: ProviderSettings): LlmProvider {
+  const baseUrl = (settings.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+
+  return {
+    name: 'openai',
+    supportsThinking: false,
+    supportsCaching: false,
+    supportsStructuredOutput: true,
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const messages: any[] = [];
+      if (request.system) {
+        messages.push({ role: 'system', content: request.system });
+      }
+      messages.push({ role: 'user', content: request.prompt });
+
+      const headers: Record<string, string> = {};
+      if (settings.apiKey) {
+        headers['authorization'] = `Bearer ${settings.apiKey}`;
+      }
+
+      const body: any = {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        messages,
+      };
+      if (request.responseSchema) {
+        body.response_format = {
+          type: 'json_schema',
+          json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema },
+        };
+      }
+
+      const response = await postJson(`${baseUrl}/chat/completions`, headers, body, request.timeoutMs);
+
+      const choice = (response.choices || [])[0];
+      const usage = response.usage || {};
+      const cached = (usage.prompt_tokens_details && usage.prompt_tokens_details.cached_tokens) || 0;
+
+      return {
+        text: (choice && choice.message && choice.message.content) || '',
+        model: response.model || request.model,
+        usage: {
+          input_tokens: (usage.prompt_tokens || 0) - cached,
+          output_tokens: usage.completion_tokens || 0,
+          cache_read_input_tokens: cached,
+          cache_creation_input_tokens: 0,
+        },
+      };
+    },
+  };
+}
+
+// Replays canned responses from AGENTIC_CONTEXT_SCRIPT_FILE (a JSON array of
+// strings) in order, repeating the last one. Without a script every call
+// returns an empty reflection. Makes the hooks testable offline.
+export function createScriptedProvider(scriptPath: string | undefined): LlmProvider {
+  let responses: string[] = ['{"new_key_points": [], "evaluations": []}'];
+  if (scriptPath) {
+    const data = JSON.parse(fs.readFileSync(scriptPath, 'utf-8'));
+    if (!Array.isArray(data) || data.length === 0) {
+      throw new Error(`${scriptPath} must contain a non-empty JSON array`);
+    }
+    responses = data.map(item => (typeof item === 'string' ? item : JSON.stringify(item)));
+  }
+  let index = 0;
+
+  return {
+    name: 'scripted',
+    supportsThinking: false,
+    supportsCaching: false,
+    supportsStructuredOutput: false,
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      const text = responses[Math.min(index, responses.length - 1)];
+      index++;
+      return { text, model: request.model, usage: emptyUsage() };
+    },
+  };
+}
+
+// Returns null when the selected provider cannot be used (e.g. missing API key)
+export function createProvider(settings: ProviderSettings): LlmProvider | null {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(settings);
+    case 'scripted':
+      return createScriptedProvider(settings.scriptFile);
+    case 'anthropic':
+      return settings.apiKey ? createAnthropicProvider(settings) : null;
+    default:
+      throw new Error(`Unknown AGENTIC_CONTEXT_PROVIDER: ${settings.provider}`);
+  }
+}
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { drainQueue, enqueueReflection, getQueueDir, listFailedJobs, listPendingJobs } from './queue.js';
+
+function setUp(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-queue-'));
+  fs.mkdirSync(path.join(root, 'home', '.claude'), { recursive: true });
+  fs.cpSync(path.join(process.cwd(), 'src', 'prompts'), path.join(root, 'home', '.claude', 'prompts'), { recursive: true });
+  fs.mkdirSync(path.join(root, 'project', '.claude'), { recursive: true });
+
+  process.env['HOME'] = path.join(root, 'home');
+  process.env['CLAUDE_PROJECT_DIR'] = path.join(root, 'project');
+  process.env['AGENTIC_CONTEXT_PROVIDER'] = 'anthropic';
+  process.env['AGENTIC_CONTEXT_QUEUE_MAX_ATTEMPTS'] = '5';
+  delete process.env['AGENTIC_CONTEXT_API_KEY'];
+  delete process.env['ANTHROPIC_AUTH_TOKEN'];
+  delete process.env['ANTHROPIC_API_KEY'];
+  delete process.env['AGENTIC_CONTEXT_BASE_URL'];
+
+  const transcriptPath = path.join(root, 'transcript.jsonl');
+  fs.writeFileSync(transcriptPath, [
+    JSON.stringify({ type: 'user', uuid: 'uuid-1', message: { role: 'user', content: 'Fix the build' } }),
+    JSON.stringify({ type: 'assistant', uuid: 'uuid-2', message: { role: 'assistant', content: 'Done' } }),
+  ].join('\n') + '\n');
+  return transcriptPath;
+}
+
+test('a job without an API key fails at once instead of being retried', async () => {
+  const transcriptPath = setUp();
+  enqueueReflection(transcriptPath, 'session_end_reflection');
+
+  await drainQueue();
+
+  assert.deepEqual(listPendingJobs(), []);
+  const [job] = listFailedJobs();
+  assert.equal(job.attempts, 1);
+  assert.match(job.last_error!, /API key/);
+});
+
+test('a job whose credentials are rejected fails at once', async () => {
+  const transcriptPath = setUp();
+  let requests = 0;
+  const server = http.createServer((req, res) => {
+    requests++;
+    res.writeHead(401, { 'content-type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'invalid x-api-key' } }));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  process.env['AGENTIC_CONTEXT_API_KEY'] = 'revoked';
+  process.env['AGENTIC_CONTEXT_BASE_URL'] = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  enqueueReflection(transcriptPath, 'session_end_reflection');
+
+  try {
+    await drainQueue();
+  } finally {
+    server.closeAllConnections();
+    server.close();
+  }
+
+  assert.equal(requests, 1);
+  assert.deepEqual(listPendingJobs(), []);
+  assert.equal(listFailedJobs()[0].attempts, 1);
+});
+
+test('failed/ keeps only the newest jobs', async () => {
+  const transcriptPath = setUp();
+  const failedDir = path.join(getQueueDir(), 'failed');
+  fs.mkdirSync(failedDir, { recursive: true });
+  for (let i = 0; i < 50; i++) {
+    const id = `old-${String(i).padStart(2, '0')}`;
+    const job = { id, transcript_path: transcriptPath, trigger: 'session_end_reflection', project_dir: '/', created_at: `2020-01-01T00:00:${String(i).padStart(2, '0')}Z`, attempts: 5, next_attempt_at: '' };
+    fs.writeFileSync(path.join(failedDir, `${id}.json`), JSON.stringify(job));
+  }
+  const latest = enqueueReflection(transcriptPath, 'session_end_reflection');
+
+  await drainQueue();
+
+  const ids = listFailedJobs().map(job => job.id);
+  assert.equal(ids.length, 50);
+  assert.ok(!ids.includes('old-00'));
+  assert.equal(ids[ids.length - 1], latest.id);
+});
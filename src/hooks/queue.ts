@@ -0,0 +1,247 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { spawn } from 'child_process';
+import { getConfig, getProjectDir, getUserClaudeDir } from './config.js';
+import { isDiagnosticMode, runReflection, saveDiagnostic } from './common.js';
+import { tryFileLock, writeFileAtomic } from './lock.js';
+
+// Reflection jobs spooled by the SessionEnd and PreCompact hooks, one JSON
+// file each in ~/.claude/reflection_queue/. A detached worker processes them
+// one at a time; jobs that keep failing, or fail in a way a retry cannot
+// fix, end up in failed/, which keeps the newest MAX_FAILED_JOBS.
+export interface ReflectionJob {
+  id: string;
+  transcript_path: string;
+  // Also the diagnostic name and the history trigger, e.g. session_end_reflection
+  trigger: string;
+  session_id?: string;
+  project_dir: string;
+  created_at: string;
+  attempts: number;
+  next_attempt_at: string;
+  last_error?: string;
+}
+
+// The worker waits for a retry that is due within this time; later retries
+// are left to the next hook invocation
+const MAX_IDLE_WAIT_MS = 5 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const MAX_FAILED_JOBS = 50;
+
+export function getQueueDir(): string {
+  return path.join(getUserClaudeDir(), 'reflection_queue');
+}
+
+function getFailedDir(): string {
+  return path.join(getQueueDir(), 'failed');
+}
+
+// queue: false runs the reflection inside the hook instead
+export function isQueueEnabled(): boolean {
+  return getConfig().queue;
+}
+
+export function getMaxAttempts(): number {
+  return getConfig().queue_max_attempts;
+}
+
+export function getRetryBaseMs(): number {
+  return getConfig().queue_retry_ms;
+}
+
+// Exponential backoff: base, 2x base, 4x base, ... capped at one hour
+export function retryDelay(attempts: number, baseMs: number): number {
+  return Math.min(baseMs * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY_MS);
+}
+
+// A job with an unreadable retry time is treated as due
+function dueAt(job: ReflectionJob): number {
+  return Date.parse(job.next_attempt_at) || 0;
+}
+
+function jobPath(dir: string, id: string): string {
+  return path.join(dir, `${id}.json`);
+}
+
+function readJobs(dir: string): ReflectionJob[] {
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter(file => file.endsWith('.json'));
+  } catch (e) {
+    return [];
+  }
+
+  const jobs: ReflectionJob[] = [];
+  for (const file of files) {
+    try {
+      jobs.push(JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')));
+    } catch (e) {
+      // Half-written or removed by the worker meanwhile
+      continue;
+    }
+  }
+  return jobs.sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)));
+}
+
+export function listPendingJobs(): ReflectionJob[] {
+  return readJobs(getQueueDir());
+}
+
+export function listFailedJobs(): ReflectionJob[] {
+  return readJobs(getFailedDir());
+}
+
+export function enqueueReflection(transcriptPath: string, trigger: string, sessionId?: string): ReflectionJob {
+  const now = new Date().toISOString();
+  const job: ReflectionJob = {
+    id: `${Date.now()}-${crypto.randomBytes(4).toString('hex')}`,
+    transcript_path: path.resolve(transcriptPath),
+    trigger,
+    session_id: sessionId,
+    project_dir: path.resolve(getProjectDir()),
+    created_at: now,
+    attempts: 0,
+    next_attempt_at: now,
+  };
+  writeFileAtomic(jobPath(getQueueDir(), job.id), JSON.stringify(job, null, 2));
+  return job;
+}
+
+// Move failed jobs back into the queue with a fresh attempt budget
+export function retryFailedJobs(): number {
+  const jobs = listFailedJobs();
+  for (const job of jobs) {
+    job.attempts = 0;
+    job.next_attempt_at = new Date().toISOString();
+    writeFileAtomic(jobPath(getQueueDir(), job.id), JSON.stringify(job, null, 2));
+    fs.unlinkSync(jobPath(getFailedDir(), job.id));
+  }
+  return jobs.length;
+}
+
+// Start a detached worker that outlives the hook. If one is already running
+// the new one exits immediately, since the running worker picks up new jobs.
+export function startWorker(): void {
+  // Next to the hooks, or the installed hooks when called from the CLI
+  const script = [__dirname, path.join(getUserClaudeDir(), 'hooks'), path.join(__dirname, '..', 'hooks')]
+    .map(dir => path.join(dir, 'reflection_worker.js'))
+    .find(candidate => fs.existsSync(candidate));
+  if (!script) {
+    return;
+  }
+
+  try {
+    const child = spawn(process.execPath, [script], {
+      detached: true,
+      stdio: 'ignore',
+      env: process.env,
+    });
+    child.on('error', () => {
+      // Jobs stay queued for the next hook invocation
+    });
+    child.unref();
+  } catch (e) {
+    if (isDiagnosticMode()) {
+      saveDiagnostic(`Could not start reflection worker: ${e}`, 'queue_error');
+    }
+  }
+}
+
+// Catch-up: restart the worker for jobs left behind by an earlier run
+export function resumePendingJobs(): void {
+  const now = Date.now();
+  if (listPendingJobs().some(job => dueAt(job) <= now)) {
+    startWorker();
+  }
+}
+
+// Park a job in failed/ for `memoria queue --retry`, dropping the oldest
+// ones beyond MAX_FAILED_JOBS
+function moveToFailed(job: ReflectionJob): void {
+  writeFileAtomic(jobPath(getFailedDir(), job.id), JSON.stringify(job, null, 2));
+  fs.unlinkSync(jobPath(getQueueDir(), job.id));
+
+  const failed = listFailedJobs();
+  for (const old of failed.slice(0, Math.max(0, failed.length - MAX_FAILED_JOBS))) {
+    fs.rmSync(jobPath(getFailedDir(), old.id), { force: true });
+  }
+}
+
+async function processJob(job: ReflectionJob): Promise<void> {
+  const file = jobPath(getQueueDir(), job.id);
+
+  // Playbook paths and history are resolved against the job's project
+  process.env['CLAUDE_PROJECT_DIR'] = job.project_dir;
+
+  let error = '';
+  let permanent = false;
+  try {
+    const outcome = await runReflection(job.transcript_path, job.trigger, job.session_id);
+    if (outcome === 'partial') {
+      // Stays first in line; the next run picks up after the last window
+      return;
+    }
+    if (outcome === 'applied' || outcome === 'nothing_new') {
+      fs.unlinkSync(file);
+      return;
+    }
+    // Retrying a missing or rejected API key only delays the report
+    permanent = outcome === 'failed_permanently';
+    error = permanent ? 'reflection failed: no API key, rejected credentials or invalid provider settings' : 'reflection failed';
+  } catch (e) {
+    error = String(e);
+  }
+
+  job.attempts++;
+  job.last_error = error;
+
+  if (permanent || job.attempts >= getMaxAttempts()) {
+    moveToFailed(job);
+    if (isDiagnosticMode()) {
+      saveDiagnostic(`Giving up on ${job.transcript_path} (${job.trigger}) after ${job.attempts} attempts: ${error}`, 'queue_failed');
+    }
+    return;
+  }
+
+  job.next_attempt_at = new Date(Date.now() + retryDelay(job.attempts, getRetryBaseMs())).toISOString();
+  writeFileAtomic(file, JSON.stringify(job, null, 2));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Process queued jobs oldest first until the queue is empty or only holds
+// retries that are not due soon. Only one worker runs at a time.
+export async function drainQueue(): Promise<void> {
+  const lockTarget = path.join(getQueueDir(), 'worker');
+  const release = tryFileLock(lockTarget);
+  if (!release) {
+    return;
+  }
+
+  try {
+    for (;;) {
+      const jobs = listPendingJobs();
+      if (jobs.length === 0) {
+        break;
+      }
+
+      const now = Date.now();
+      const due = jobs.find(job => dueAt(job) <= now);
+      if (due) {
+        await processJob(due);
+        continue;
+      }
+
+      const wait = Math.min(...jobs.map(dueAt)) - now;
+      if (wait > MAX_IDLE_WAIT_MS) {
+        break;
+      }
+      await sleep(wait);
+    }
+  } finally {
+    release();
+  }
+}
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { KeyPoint, createKeyPoint } from './common.js';
+import { explainSelection, rankKeyPoints, selectKeyPoints, tokenize } from './ranking.js';
+
+function keyPoint(name: string, text: string, score = 0): KeyPoint {
+  return createKeyPoint(name, text, { score });
+}
+
+function names(ranked: { keyPoint: KeyPoint }[]): string[] {
+  return ranked.map(r => r.keyPoint.name);
+}
+
+const PLAYBOOK = [
+  keyPoint('kpt_docker', 'Start the docker daemon before the integration tests', 1),
+  keyPoint('kpt_pnpm', 'Install packages with pnpm, never npm', 8),
+  keyPoint('kpt_migrations', 'Run the database migrations before the integration tests', 0),
+  keyPoint('kpt_commits', 'Write commit messages in the imperative mood', 4),
+];
+
+test('tokenize lowercases and drops stopwords and single characters', () => {
+  assert.deepEqual(tokenize('Why do the API_KEY tests fail in CI? (a b)'), ['api_key', 'tests', 'fail', 'ci']);
+});
+
+test('BM25 favours rare terms and matches on every query term', () => {
+  const ranked = rankKeyPoints(PLAYBOOK, 'database migrations fail in the integration tests');
+
+  assert.equal(ranked[0].keyPoint.name, 'kpt_migrations');
+  assert.deepEqual(ranked[0].matchedTerms, ['database', 'migrations', 'integration', 'tests']);
+  // "integration" and "tests" appear in two key points, "migrations" in one
+  const docker = ranked.find(r => r.keyPoint.name === 'kpt_docker')!;
+  assert.ok(ranked[0].relevance > docker.relevance && docker.relevance > 0);
+  assert.equal(ranked.find(r => r.keyPoint.name === 'kpt_pnpm')!.relevance, 0);
+});
+
+test('the combined score is the normalized relevance plus tanh(score / 5) / 4', () => {
+  const ranked = rankKeyPoints(PLAYBOOK, 'integration tests');
+  const maxRelevance = Math.max(...ranked.map(r => r.relevance));
+
+  for (const r of ranked) {
+    const expected = r.relevance / maxRelevance + 0.25 * Math.tanh(r.keyPoint.score / 5);
+    assert.ok(Math.abs(r.combined - expected) < 1e-9, r.keyPoint.name);
+  }
+  // Equal relevance: the higher score breaks the tie
+  assert.deepEqual(names(ranked).slice(0, 2), ['kpt_docker', 'kpt_migrations']);
+});
+
+test('relevance beats a much higher score', () => {
+  const ranked = rankKeyPoints(PLAYBOOK, 'write the commit message');
+  assert.equal(ranked[0].keyPoint.name, 'kpt_commits');
+
+  // The best-scored key point can at most add 0.25, less than any match is worth here
+  const top = rankKeyPoints(PLAYBOOK, 'migrations');
+  assert.deepEqual(names(top).slice(0, 2), ['kpt_migrations', 'kpt_pnpm']);
+});
+
+test('without any match the key points are ranked by score alone', () => {
+  assert.deepEqual(names(rankKeyPoints(PLAYBOOK, 'refactor the logger')), ['kpt_pnpm', 'kpt_commits', 'kpt_docker', 'kpt_migrations']);
+  assert.deepEqual(names(selectKeyPoints(PLAYBOOK, '', 2)), ['kpt_pnpm', 'kpt_commits']);
+});
+
+test('selectKeyPoints tops up the matches with the best-scored rest', () => {
+  assert.deepEqual(names(selectKeyPoints(PLAYBOOK, 'database migrations', 3)), ['kpt_migrations', 'kpt_pnpm', 'kpt_commits']);
+  assert.deepEqual(names(selectKeyPoints(PLAYBOOK, 'integration tests', 1)), ['kpt_docker']);
+  // 0 selects everything
+  assert.equal(selectKeyPoints(PLAYBOOK, 'integration tests', 0).length, PLAYBOOK.length);
+});
+
+test('explainSelection says why each key point was picked', () => {
+  const selected = selectKeyPoints(PLAYBOOK, 'database migrations', 2);
+  const text = explainSelection(selected, PLAYBOOK.length, 'database migrations');
+
+  assert.match(text, /# QUERY TERMS\ndatabase, migrations\n/);
+  assert.match(text, /# SELECTED 2\/4/);
+  assert.match(text, /- kpt_migrations .* \(matched: database, migrations\)/);
+  assert.match(text, /- kpt_pnpm .* \(no term match, picked by score\)/);
+});
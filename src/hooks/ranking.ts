@@ -0,0 +1,111 @@
+import type { KeyPoint } from './common.js';
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for',
+  'from', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+  'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'please', 'should', 'so',
+  'that', 'the', 'their', 'then', 'there', 'this', 'to', 'use', 'was', 'we',
+  'what', 'when', 'which', 'why', 'will', 'with', 'you', 'your',
+]);
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+export interface RankedKeyPoint {
+  keyPoint: KeyPoint;
+  relevance: number;
+  combined: number;
+  matchedTerms: string[];
+}
+
+// Rank key points against a prompt with a local BM25 index, blended with the
+// playbook score. Key points without any term overlap are ranked by score only.
+export function rankKeyPoints(keyPoints: KeyPoint[], prompt: string): RankedKeyPoint[] {
+  const docs = keyPoints.map(kp => tokenize(kp.text));
+  const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / (docs.length || 1);
+
+  const docFreq = new Map<string, number>();
+  for (const doc of docs) {
+    for (const term of new Set(doc)) {
+      docFreq.set(term, (docFreq.get(term) || 0) + 1);
+    }
+  }
+
+  const queryTerms = [...new Set(tokenize(prompt))];
+
+  const ranked = keyPoints.map((keyPoint, i) => {
+    const doc = docs[i];
+    const termFreq = new Map<string, number>();
+    for (const term of doc) {
+      termFreq.set(term, (termFreq.get(term) || 0) + 1);
+    }
+
+    let relevance = 0;
+    const matchedTerms: string[] = [];
+    for (const term of queryTerms) {
+      const tf = termFreq.get(term);
+      if (!tf) continue;
+      const df = docFreq.get(term) || 0;
+      const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+      relevance += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / (avgLength || 1)));
+      matchedTerms.push(term);
+    }
+
+    return { keyPoint, relevance, combined: 0, matchedTerms };
+  });
+
+  // Relevance dominates; score (squashed to -1..1) breaks ties and favours proven key points
+  const maxRelevance = Math.max(0, ...ranked.map(r => r.relevance));
+  for (const r of ranked) {
+    const normalized = maxRelevance > 0 ? r.relevance / maxRelevance : 0;
+    r.combined = normalized + 0.25 * Math.tanh((r.keyPoint.score || 0) / 5);
+  }
+
+  return ranked.sort((a, b) => b.combined - a.combined);
+}
+
+// Pick the top key points for a prompt. When nothing in the playbook matches
+// the prompt, fall back to the highest-scoring key points.
+export function selectKeyPoints(keyPoints: KeyPoint[], prompt: string, limit: number): RankedKeyPoint[] {
+  const ranked = rankKeyPoints(keyPoints, prompt);
+  if (!(limit > 0) || ranked.length <= limit) {
+    return ranked;
+  }
+
+  const matching = ranked.filter(r => r.relevance > 0);
+  if (matching.length === 0) {
+    return ranked.slice(0, limit);
+  }
+  if (matching.length >= limit) {
+    return matching.slice(0, limit);
+  }
+
+  // Top up with the best-scoring unmatched key points
+  const rest = ranked.filter(r => r.relevance === 0);
+  return [...matching, ...rest.slice(0, limit - matching.length)];
+}
+
+export function explainSelection(selected: RankedKeyPoint[], total: number, prompt: string): string {
+  const lines = [
+    `# PROMPT\n${prompt}\n`,
+    `# QUERY TERMS\n${[...new Set(tokenize(prompt))].join(', ') || '(none)'}\n`,
+    `# SELECTED ${selected.length}/${total}`,
+  ];
+  for (const r of selected) {
+    const why = r.matchedTerms.length > 0
+      ? `matched: ${r.matchedTerms.join(', ')}`
+      : 'no term match, picked by score';
+    lines.push(
+      `- ${r.keyPoint.name} combined=${r.combined.toFixed(3)} bm25=${r.relevance.toFixed(3)} score=${r.keyPoint.score} (${why})\n  ${r.keyPoint.text}`
+    );
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { getPlaybookPath, getTranscriptProgressPath, runReflection } from './common.js';
+import { combineExtractionResults, limitWindows } from './chunking.js';
+
+function setUp(): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-reflection-'));
+  const home = path.join(root, 'home');
+  fs.mkdirSync(path.join(home, '.claude'), { recursive: true });
+  fs.cpSync(path.join(process.cwd(), 'src', 'prompts'), path.join(home, '.claude', 'prompts'), { recursive: true });
+  fs.mkdirSync(path.join(root, 'project', '.claude'), { recursive: true });
+
+  process.env['HOME'] = home;
+  process.env['CLAUDE_PROJECT_DIR'] = path.join(root, 'project');
+  process.env['AGENTIC_CONTEXT_PROVIDER'] = 'scripted';
+  // One message per window
+  process.env['AGENTIC_CONTEXT_WINDOW_TOKENS'] = '150';
+  process.env['AGENTIC_CONTEXT_WINDOW_OVERLAP'] = '0';
+  process.env['AGENTIC_CONTEXT_MAX_WINDOWS'] = '2';
+  return root;
+}
+
+function writeTranscript(root: string, count: number): string {
+  const transcriptPath = path.join(root, 'transcript.jsonl');
+  const lines = Array.from({ length: count }, (_, i) => JSON.stringify({
+    type: i % 2 === 0 ? 'user' : 'assistant',
+    uuid: `uuid-${i + 1}`,
+    message: { role: i % 2 === 0 ? 'user' : 'assistant', content: `Message ${i + 1}: ${'lorem ipsum '.repeat(40)}` },
+  }));
+  fs.writeFileSync(transcriptPath, `${lines.join('\n')}\n`);
+  return transcriptPath;
+}
+
+function progressLine(transcriptPath: string): number | undefined {
+  const store = JSON.parse(fs.readFileSync(getTranscriptProgressPath(), 'utf-8'));
+  return store[path.resolve(transcriptPath)]?.line;
+}
+
+test('limitWindows keeps the first windows', () => {
+  assert.deepEqual(limitWindows([[1], [2], [3]], 2), [[1], [2]]);
+  assert.deepEqual(limitWindows([[1], [2], [3]], 0), [[1], [2], [3]]);
+});
+
+test('windows beyond max_windows are left for the next run', async () => {
+  const root = setUp();
+  const transcriptPath = writeTranscript(root, 5);
+
+  assert.equal(await runReflection(transcriptPath, 'test_reflection'), 'partial');
+  assert.equal(progressLine(transcriptPath), 2);
+
+  assert.equal(await runReflection(transcriptPath, 'test_reflection'), 'partial');
+  assert.equal(progressLine(transcriptPath), 4);
+
+  assert.equal(await runReflection(transcriptPath, 'test_reflection'), 'applied');
+  assert.equal(progressLine(transcriptPath), 5);
+
+  assert.equal(await runReflection(transcriptPath, 'test_reflection'), 'nothing_new');
+});
+
+test('a transcript within max_windows is processed in one run', async () => {
+  const root = setUp();
+  const transcriptPath = writeTranscript(root, 2);
+
+  assert.equal(await runReflection(transcriptPath, 'test_reflection'), 'applied');
+  assert.equal(progressLine(transcriptPath), 2);
+});
+
+test('only near-verbatim repeats across windows are dropped', () => {
+  const combined = combineExtractionResults([
+    { new_key_points: ['Write tests before the implementation'], evaluations: [] },
+    { new_key_points: ['Write docs before the implementation', 'Write tests before the implementation.'], evaluations: [] },
+  ]);
+  assert.deepEqual(combined.new_key_points, ['Write tests before the implementation', 'Write docs before the implementation']);
+  assert.equal(combined.failed, undefined);
+});
+
+test('a failed window keeps the windows before it', async () => {
+  const root = setUp();
+  const transcriptPath = writeTranscript(root, 5);
+
+  // The first window succeeds, every later request is rejected
+  let requests = 0;
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      requests++;
+      if (requests > 1) {
+        res.writeHead(400, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'stub' } }));
+        return;
+      }
+      const content = JSON.stringify({ new_key_points: ['Lesson from the first window'], evaluations: [] });
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ model: 'primary', choices: [{ message: { content } }], usage: { prompt_tokens: 1, completion_tokens: 1 } }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  process.env['AGENTIC_CONTEXT_PROVIDER'] = 'openai';
+  process.env['AGENTIC_CONTEXT_API_KEY'] = 'test';
+  process.env['AGENTIC_CONTEXT_MODEL'] = 'primary';
+  process.env['AGENTIC_CONTEXT_BASE_URL'] = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+
+  try {
+    assert.equal(await runReflection(transcriptPath, 'test_reflection'), 'partial');
+  } finally {
+    server.closeAllConnections();
+    server.close();
+    for (const key of ['AGENTIC_CONTEXT_API_KEY', 'AGENTIC_CONTEXT_MODEL', 'AGENTIC_CONTEXT_BASE_URL']) {
+      delete process.env[key];
+    }
+  }
+
+  assert.equal(progressLine(transcriptPath), 1);
+  const playbook = JSON.parse(fs.readFileSync(getPlaybookPath('project'), 'utf-8'));
+  assert.deepEqual(playbook.key_points.map((kp: any) => kp.text), ['Lesson from the first window']);
+});
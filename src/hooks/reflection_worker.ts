@@ -0,0 +1,10 @@
+import { drainQueue } from './queue.js';
+
+// Detached background process started by the hooks; see queue.ts
+drainQueue().then(() => {
+  process.exit(0);
+}).catch((error) => {
+  console.error(`Error: ${error}`);
+  console.error(error.stack);
+  process.exit(1);
+});
@@ -0,0 +1,127 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { LlmProvider, createAnthropicProvider, createOpenAICompatibleProvider } from './providers.js';
+import { CallFailedError, RetryOptions, classifyError, completeWithRetry } from './retry.js';
+
+// Each request takes the next behavior; the last one repeats
+type Behavior = { status: number; body?: any } | 'hang';
+
+let server: http.Server;
+let baseUrl: string;
+let behaviors: Behavior[] = [];
+let requests: { model: string }[] = [];
+
+function reply(kind: 'anthropic' | 'openai', model: string): any {
+  if (kind === 'anthropic') {
+    return {
+      id: 'msg_1', type: 'message', role: 'assistant', model,
+      content: [{ type: 'text', text: 'OK' }],
+      stop_reason: 'end_turn', usage: { input_tokens: 1, output_tokens: 1 },
+    };
+  }
+  return { model, choices: [{ message: { content: 'OK' } }], usage: { prompt_tokens: 1, completion_tokens: 1 } };
+}
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const model = JSON.parse(Buffer.concat(chunks).toString('utf-8')).model;
+      requests.push({ model });
+      const behavior = behaviors.length > 1 ? behaviors.shift()! : behaviors[0];
+      if (behavior === 'hang') {
+        return;
+      }
+      const kind = req.url!.includes('chat/completions') ? 'openai' : 'anthropic';
+      res.writeHead(behavior.status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(behavior.body ?? (behavior.status === 200 ? reply(kind, model) : { error: { message: 'stub' } })));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+const OPTIONS: RetryOptions = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5, timeoutMs: 300, fallbackModels: ['fallback'] };
+
+const providers: Record<string, (url: string) => LlmProvider> = {
+  anthropic: url => createAnthropicProvider({ provider: 'anthropic', apiKey: 'test', model: 'primary', baseUrl: url }),
+  openai: url => createOpenAICompatibleProvider({ provider: 'openai', apiKey: 'test', model: 'primary', baseUrl: `${url}/v1` }),
+};
+
+async function call(provider: LlmProvider): Promise<{ models: string[]; kinds: string[]; ok: boolean }> {
+  requests = [];
+  try {
+    const { outcome } = await completeWithRetry(provider, { model: 'primary', prompt: 'hi', maxTokens: 16 }, OPTIONS);
+    return { models: requests.map(r => r.model), kinds: outcome.attempts.map(a => a.kind), ok: true };
+  } catch (e) {
+    assert.ok(e instanceof CallFailedError);
+    return { models: requests.map(r => r.model), kinds: e.outcome.attempts.map(a => a.kind), ok: false };
+  }
+}
+
+for (const [name, create] of Object.entries(providers)) {
+  test(`${name}: overloaded responses are retried`, async () => {
+    behaviors = [{ status: 529 }, { status: 529 }, { status: 200 }];
+    const result = await call(create(baseUrl));
+    assert.deepEqual(result, { models: ['primary', 'primary', 'primary'], kinds: ['overloaded', 'overloaded', 'ok'], ok: true });
+  });
+
+  test(`${name}: timeouts are retried, then the fallback model is tried`, async () => {
+    behaviors = ['hang', 'hang', 'hang', { status: 200 }];
+    const result = await call(create(baseUrl));
+    assert.deepEqual(result.kinds, ['timeout', 'timeout', 'timeout', 'ok']);
+    assert.deepEqual(result.models, ['primary', 'primary', 'primary', 'fallback']);
+  });
+
+  test(`${name}: an unknown model falls back without retrying`, async () => {
+    behaviors = [{ status: 404 }, { status: 200 }];
+    const result = await call(create(baseUrl));
+    assert.deepEqual(result, { models: ['primary', 'fallback'], kinds: ['bad_request', 'ok'], ok: true });
+  });
+
+  test(`${name}: rejected credentials fail at once`, async () => {
+    behaviors = [{ status: 401 }];
+    const result = await call(create(baseUrl));
+    assert.deepEqual(result, { models: ['primary'], kinds: ['auth'], ok: false });
+  });
+
+  test(`${name}: a refused connection is retried on the same model`, async () => {
+    const closed = http.createServer();
+    await new Promise<void>(resolve => closed.listen(0, '127.0.0.1', resolve));
+    const url = `http://127.0.0.1:${(closed.address() as AddressInfo).port}`;
+    await new Promise(resolve => closed.close(resolve));
+
+    const result = await call(create(url));
+    assert.deepEqual(result.kinds, ['network', 'network', 'network']);
+    assert.equal(result.ok, false);
+  });
+}
+
+test('no attempt or fallback is started once the deadline is used up', async () => {
+  behaviors = ['hang'];
+  requests = [];
+  const started = Date.now();
+  const options = { ...OPTIONS, deadline: started + 1500 };
+
+  await assert.rejects(
+    completeWithRetry(providers.openai(baseUrl), { model: 'primary', prompt: 'hi', maxTokens: 16 }, options),
+    (e: any) => e instanceof CallFailedError && /Out of time/.test(e.message) && e.outcome.attempts.length === 2
+  );
+  // Without it, three tries each of the primary and the fallback take 1.8s
+  assert.ok(Date.now() - started < 1500);
+  assert.deepEqual(requests.map(r => r.model), ['primary', 'primary']);
+});
+
+test('socket errors wrapped as a cause are network errors', () => {
+  const error: any = new Error('fetch failed');
+  error.cause = { code: 'ECONNRESET' };
+  assert.equal(classifyError(error).kind, 'network');
+});
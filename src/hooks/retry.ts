@@ -0,0 +1,211 @@
+import { APIConnectionError, APIConnectionTimeoutError } from '@anthropic-ai/sdk';
+import type { CompletionRequest, CompletionResponse, LlmProvider } from './providers.js';
+import { getConfig } from './config.js';
+
+export type ErrorKind = 'rate_limited' | 'overloaded' | 'server' | 'timeout' | 'network' | 'auth' | 'bad_request' | 'unknown';
+
+export interface ErrorClassification {
+  kind: ErrorKind;
+  // Worth trying the same model again after a pause
+  retryable: boolean;
+  // Worth trying the next fallback model
+  tryFallback: boolean;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+  fallbackModels: string[];
+  // Epoch ms after which no attempt is started, across retries and fallbacks
+  deadline?: number;
+}
+
+export interface CallAttempt {
+  model: string;
+  kind: ErrorKind | 'ok';
+  status?: number;
+  message?: string;
+  delay_ms?: number;
+}
+
+// Every attempt of one logical call, for diagnostics
+export interface CallOutcome {
+  ok: boolean;
+  model?: string;
+  attempts: CallAttempt[];
+}
+
+export class CallFailedError extends Error {
+  outcome: CallOutcome;
+
+  constructor(message: string, outcome: CallOutcome) {
+    super(message);
+    this.outcome = outcome;
+  }
+}
+
+// Timeout of the SessionEnd and PreCompact hooks in src/settings.json
+export const HOOK_TIMEOUT_MS = 120_000;
+// Left after the last call to save the playbook before the hook is killed
+const HOOK_SAVE_MS = 10_000;
+// An attempt with less time left than this is not started
+const MIN_ATTEMPT_MS = 1000;
+
+let callDeadline: number | undefined;
+
+// Bound every later call so the process finishes within the hook timeout.
+// For reflection inside the hook (queue: false); the worker has no limit.
+export function useHookDeadline(): void {
+  const started = Date.now() - process.uptime() * 1000;
+  callDeadline = started + HOOK_TIMEOUT_MS - HOOK_SAVE_MS;
+}
+
+const NETWORK_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'ECONNABORTED']);
+
+export function getRetryOptions(): RetryOptions {
+  const config = getConfig();
+  return {
+    maxRetries: config.max_retries,
+    baseDelayMs: config.retry_base_ms,
+    maxDelayMs: config.retry_max_ms,
+    // Per attempt: with retries and fallbacks a call can take several times
+    // as long, which the background worker can afford and a hook cannot;
+    // there the deadline set by useHookDeadline() bounds the total
+    timeoutMs: config.call_timeout_ms,
+    fallbackModels: config.fallback_models,
+    deadline: callDeadline,
+  };
+}
+
+function headerValue(headers: any, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === 'function') return headers.get(name) ?? undefined;
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Retry-After in seconds or as an HTTP date
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function classifyError(error: any): ErrorClassification {
+  const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+  const retryAfterMs = parseRetryAfter(headerValue(error?.headers, 'retry-after'));
+
+  if (status !== undefined) {
+    if (status === 429) {
+      return { kind: 'rate_limited', retryable: true, tryFallback: true, status, retryAfterMs };
+    }
+    // 529 is Anthropic's "overloaded"
+    if (status === 529 || status === 503) {
+      return { kind: 'overloaded', retryable: true, tryFallback: true, status, retryAfterMs };
+    }
+    if (status === 408) {
+      return { kind: 'timeout', retryable: true, tryFallback: true, status };
+    }
+    if (status >= 500) {
+      return { kind: 'server', retryable: true, tryFallback: true, status };
+    }
+    if (status === 401 || status === 403) {
+      return { kind: 'auth', retryable: false, tryFallback: false, status };
+    }
+    // E.g. an unknown model or a request the model cannot take; another
+    // model may accept it
+    return { kind: 'bad_request', retryable: false, tryFallback: true, status };
+  }
+
+  // The Anthropic SDK's connection errors carry neither a status nor a code;
+  // the socket error, if any, is their cause
+  const name = String(error?.name || '');
+  const code = String(error?.code || error?.cause?.code || '');
+  if (error instanceof APIConnectionTimeoutError || code === 'ETIMEDOUT' || /timeout/i.test(name)) {
+    return { kind: 'timeout', retryable: true, tryFallback: true };
+  }
+  if (error instanceof APIConnectionError || NETWORK_CODES.has(code) || /connection/i.test(name)) {
+    return { kind: 'network', retryable: true, tryFallback: false };
+  }
+  return { kind: 'unknown', retryable: false, tryFallback: false };
+}
+
+// "Full jitter" exponential backoff: a random delay up to base * 2^attempt
+export function backoffDelay(attempt: number, options: RetryOptions, random: () => number = Math.random): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Call the provider with retries for transient errors, then each fallback
+// model in turn. Throws CallFailedError with every attempt when all fail or
+// the deadline leaves no time for another attempt.
+export async function completeWithRetry(
+  provider: LlmProvider,
+  request: CompletionRequest,
+  options: RetryOptions = getRetryOptions()
+): Promise<{ response: CompletionResponse; outcome: CallOutcome }> {
+  const models = [request.model, ...options.fallbackModels.filter(model => model !== request.model)];
+  const attempts: CallAttempt[] = [];
+  let lastMessage = '';
+  const remaining = () => options.deadline === undefined ? Infinity : options.deadline - Date.now();
+  const outOfTime = () => new CallFailedError(
+    `Out of time for ${provider.name} calls${lastMessage ? `: ${lastMessage}` : ''}`,
+    { ok: false, attempts }
+  );
+
+  for (const model of models) {
+    for (let retry = 0; retry <= options.maxRetries; retry++) {
+      if (remaining() < MIN_ATTEMPT_MS) {
+        throw outOfTime();
+      }
+      try {
+        const timeoutMs = Math.min(options.timeoutMs, remaining());
+        const response = await provider.complete({ ...request, model, timeoutMs });
+        attempts.push({ model, kind: 'ok' });
+        return { response, outcome: { ok: true, model, attempts } };
+      } catch (e) {
+        const classification = classifyError(e);
+        lastMessage = String((e as Error)?.message || e);
+        const attempt: CallAttempt = {
+          model,
+          kind: classification.kind,
+          status: classification.status,
+          message: lastMessage.slice(0, 300),
+        };
+        attempts.push(attempt);
+
+        if (classification.kind === 'auth') {
+          throw new CallFailedError(`${provider.name} rejected the credentials: ${lastMessage}`, { ok: false, attempts });
+        }
+        if (!classification.retryable || retry === options.maxRetries) {
+          if (!classification.tryFallback) {
+            throw new CallFailedError(`${classification.kind} error from ${provider.name}: ${lastMessage}`, { ok: false, attempts });
+          }
+          break;
+        }
+
+        const delay = Math.min(
+          options.maxDelayMs,
+          Math.max(backoffDelay(retry, options), classification.retryAfterMs || 0)
+        );
+        if (delay + MIN_ATTEMPT_MS > remaining()) {
+          throw outOfTime();
+        }
+        attempt.delay_ms = delay;
+        await sleep(delay);
+      }
+    }
+  }
+
+  throw new CallFailedError(`All models failed (${models.join(', ')}): ${lastMessage}`, { ok: false, attempts });
+}
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KeyPoint, createKeyPoint, emptyPlaybook, recordProjectSightings, updatePlaybookData } from './common.js';
+import { isApproved, rejectKeyPoint } from './review.js';
+
+const LESSON = 'Run the database migrations before starting the integration tests';
+
+function setUp(): void {
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-review-'));
+  process.env['HOME'] = home;
+  process.env['AGENTIC_CONTEXT_PROMOTION_PROJECTS'] = '2';
+}
+
+function learned(): KeyPoint[] {
+  return [createKeyPoint('kpt_1', LESSON)];
+}
+
+test('promoted global key points are pending review', () => {
+  setUp();
+  const global = emptyPlaybook();
+  const review = { enabled: true, approvals: 2 };
+
+  assert.deepEqual(recordProjectSightings(global, learned(), '/projects/a', review), []);
+  const [name] = recordProjectSightings(global, learned(), '/projects/b', review);
+
+  const kp = global.key_points.find(k => k.name === name)!;
+  assert.equal(kp.text, LESSON);
+  assert.equal(kp.status, 'pending');
+  assert.equal(isApproved(kp), false);
+});
+
+test('promotions are approved right away without review mode', () => {
+  setUp();
+  const global = emptyPlaybook();
+  const review = { enabled: false, approvals: 2 };
+
+  recordProjectSightings(global, learned(), '/projects/a', review);
+  recordProjectSightings(global, learned(), '/projects/b', review);
+
+  assert.equal(global.key_points.length, 1);
+  assert.ok(isApproved(global.key_points[0]));
+});
+
+test('a rejected promotion is not promoted again', () => {
+  setUp();
+  const global = emptyPlaybook();
+  const review = { enabled: true, approvals: 2 };
+
+  recordProjectSightings(global, learned(), '/projects/a', review);
+  recordProjectSightings(global, learned(), '/projects/b', review);
+  rejectKeyPoint(global, global.key_points[0]);
+
+  for (const project of ['/projects/c', '/projects/d', '/projects/e']) {
+    assert.deepEqual(recordProjectSightings(global, learned(), project, review), []);
+  }
+  assert.equal(global.key_points.length, 0);
+  assert.deepEqual(global.promotion_candidates, []);
+});
+
+test('a rejection blocks rewordings of the rejected lesson only', () => {
+  setUp();
+  // Loose enough to merge "tests" and "docs"; rejections stay stricter
+  process.env['AGENTIC_CONTEXT_DEDUP_THRESHOLD'] = '0.6';
+  const playbook = emptyPlaybook();
+  const review = { enabled: false, approvals: 2 };
+  const learn = (text: string) => updatePlaybookData(playbook, { new_key_points: [text], evaluations: [] }, 'session-1', undefined, undefined, review);
+
+  learn('Write tests before the implementation');
+  learn('Use yarn to install dependencies');
+  rejectKeyPoint(playbook, playbook.key_points[0]);
+  rejectKeyPoint(playbook, playbook.key_points[0]);
+
+  learn('Write tests before the implementation.');
+  learn('Write docs before the implementation');
+  learn('Use pnpm to install dependencies');
+
+  assert.deepEqual(playbook.key_points.map(kp => kp.text), [
+    'Write docs before the implementation',
+    'Use pnpm to install dependencies',
+  ]);
+  delete process.env['AGENTIC_CONTEXT_DEDUP_THRESHOLD'];
+});
@@ -0,0 +1,78 @@
+import type { KeyPoint, Playbook } from './common.js';
+
+// Review mode quarantines newly extracted key points: they are stored as
+// pending, shown to the reflector so they can be rated, but never injected
+// until they are approved by hand or rated helpful in enough later sessions.
+// Read from `review` and `review_approvals` in memoria.json.
+export interface ReviewPolicy {
+  enabled: boolean;
+  // Distinct sessions, other than the ones that proposed the key point, that
+  // must rate it helpful before it is approved automatically
+  approvals: number;
+}
+
+export type KeyPointStatus = 'pending' | 'approved';
+
+// Text of a rejected key point; near-duplicates of it are not added again
+export interface RejectedKeyPoint {
+  text: string;
+  rejected_at: string;
+}
+
+// Key points without a status were learned before review mode was enabled
+export function isApproved(kp: KeyPoint): boolean {
+  return kp.status !== 'pending';
+}
+
+export function approveKeyPoint(kp: KeyPoint): void {
+  kp.status = 'approved';
+  delete kp.helpful_sessions;
+}
+
+// Count a helpful rating from `sessionId` towards approval; returns true when
+// this approved the key point. Ratings from the proposing sessions, and
+// repeated ratings from one session (PreCompact, then SessionEnd), count once.
+export function recordHelpfulSession(kp: KeyPoint, sessionId: string | undefined, policy: ReviewPolicy): boolean {
+  if (isApproved(kp) || !sessionId || (kp.sessions || []).includes(sessionId)) {
+    return false;
+  }
+
+  const helpful = kp.helpful_sessions || [];
+  if (!helpful.includes(sessionId)) {
+    kp.helpful_sessions = [...helpful, sessionId];
+  }
+  if ((kp.helpful_sessions || []).length >= policy.approvals) {
+    approveKeyPoint(kp);
+    return true;
+  }
+  return false;
+}
+
+export function rejectKeyPoint(playbook: Playbook, kp: KeyPoint, at: Date = new Date()): void {
+  playbook.key_points = playbook.key_points.filter(k => k !== kp);
+  const rejected = playbook.rejected || [];
+  if (!rejected.some(r => r.text === kp.text)) {
+    playbook.rejected = [...rejected, { text: kp.text, rejected_at: at.toISOString() }];
+  }
+}
+
+// Review state of a key point combined with another version of itself (a
+// merged near-duplicate, or the other side of a playbook merge). Approval on
+// either side wins; otherwise the helpful sessions add up.
+export function combineReviewState(kp: KeyPoint, other: KeyPoint): void {
+  if (kp.status !== 'pending' && other.status !== 'pending') {
+    return;
+  }
+  if (kp.status === 'pending' && other.status === 'pending') {
+    kp.helpful_sessions = [...new Set([...(kp.helpful_sessions || []), ...(other.helpful_sessions || [])])];
+    return;
+  }
+
+  const status = kp.status === 'pending' ? other.status : kp.status;
+  delete kp.helpful_sessions;
+  if (status) {
+    kp.status = status;
+  } else {
+    delete kp.status;
+  }
+}
@@ -0,0 +1,132 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { KeyPoint, createKeyPoint, emptyPlaybook, loadScoringPolicy, updatePlaybookData } from './common.js';
+import {
+  DEFAULT_SCORING_POLICY,
+  ScoringPolicy,
+  effectiveScore,
+  idleDays,
+  ratingDelta,
+  resolveScoringPolicy,
+  shouldPrune,
+} from './scoring.js';
+
+const NOW = new Date('2025-06-30T00:00:00Z');
+const NO_REVIEW = { enabled: false, approvals: 2 };
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function policy(overrides: Partial<ScoringPolicy> = {}): ScoringPolicy {
+  return { ...DEFAULT_SCORING_POLICY, ...overrides };
+}
+
+function keyPoint(name: string, fields: Partial<KeyPoint> = {}): KeyPoint {
+  return createKeyPoint(name, `Lesson ${name}`, { created_at: daysAgo(1), last_seen: daysAgo(1), ...fields });
+}
+
+function setUp(config?: object): void {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-scoring-'));
+  fs.mkdirSync(path.join(root, 'home', '.claude'), { recursive: true });
+  fs.mkdirSync(path.join(root, 'project', '.claude'), { recursive: true });
+  process.env['HOME'] = path.join(root, 'home');
+  process.env['CLAUDE_PROJECT_DIR'] = path.join(root, 'project');
+  if (config) {
+    fs.writeFileSync(path.join(root, 'project', '.claude', 'memoria.json'), JSON.stringify(config));
+  }
+}
+
+test('resolveScoringPolicy falls back to the defaults', () => {
+  assert.deepEqual(resolveScoringPolicy(undefined), DEFAULT_SCORING_POLICY);
+  assert.deepEqual(resolveScoringPolicy('strict'), DEFAULT_SCORING_POLICY);
+  assert.deepEqual(resolveScoringPolicy({ helpful: '2', harmful: NaN, neutral: Infinity, penalize_neutral: 'no' }), DEFAULT_SCORING_POLICY);
+});
+
+test('resolveScoringPolicy takes valid overrides and clamps decay', () => {
+  const resolved = resolveScoringPolicy({ helpful: 2, penalize_neutral: false, prune_threshold: -10, decay_grace_days: -4, decay_per_day: -1 });
+  assert.deepEqual(resolved, policy({ helpful: 2, penalize_neutral: false, prune_threshold: -10, decay_grace_days: 0, decay_per_day: 0 }));
+});
+
+test('ratingDelta follows the policy', () => {
+  const custom = policy({ helpful: 2, harmful: -5, neutral: -0.5 });
+  assert.equal(ratingDelta('helpful', custom), 2);
+  assert.equal(ratingDelta('harmful', custom), -5);
+  assert.equal(ratingDelta('neutral', custom), -0.5);
+  assert.equal(ratingDelta('neutral', { ...custom, penalize_neutral: false }), 0);
+  assert.equal(ratingDelta('bogus', custom), 0);
+});
+
+test('idleDays counts from last_seen, then created_at', () => {
+  assert.equal(idleDays(keyPoint('a', { last_seen: daysAgo(3), created_at: daysAgo(10) }), NOW), 3);
+  assert.equal(idleDays(keyPoint('b', { last_seen: null, created_at: daysAgo(10) }), NOW), 10);
+  assert.equal(idleDays(keyPoint('c', { last_seen: null, created_at: 'never' }), NOW), 0);
+  assert.equal(idleDays(keyPoint('d', { last_seen: daysAgo(-2) }), NOW), 0);
+});
+
+test('effectiveScore decays only after the grace period', () => {
+  const decaying = policy({ decay_grace_days: 10, decay_per_day: 0.5 });
+  assert.equal(effectiveScore(keyPoint('a', { score: 3, last_seen: daysAgo(40) }), policy(), NOW), 3);
+  assert.equal(effectiveScore(keyPoint('b', { score: 3, last_seen: daysAgo(10) }), decaying, NOW), 3);
+  assert.equal(effectiveScore(keyPoint('c', { score: 3, last_seen: daysAgo(14) }), decaying, NOW), 1);
+});
+
+test('shouldPrune spares pinned key points and counts decay', () => {
+  const decaying = policy({ prune_threshold: -5, decay_grace_days: 0, decay_per_day: 1 });
+  assert.equal(shouldPrune(keyPoint('a', { score: -5 }), policy(), NOW), true);
+  assert.equal(shouldPrune(keyPoint('b', { score: -4 }), policy(), NOW), false);
+  assert.equal(shouldPrune(keyPoint('c', { score: -9, pinned: true }), policy(), NOW), false);
+  assert.equal(shouldPrune(keyPoint('d', { score: 0, last_seen: daysAgo(6) }), decaying, NOW), true);
+});
+
+test('updatePlaybookData scores ratings with the policy', () => {
+  setUp();
+  const playbook = emptyPlaybook();
+  playbook.key_points = [keyPoint('kpt_a', { last_seen: daysAgo(5) }), keyPoint('kpt_b'), keyPoint('kpt_c', { last_seen: daysAgo(5) })];
+  const custom = policy({ helpful: 2, harmful: -4, penalize_neutral: false });
+
+  updatePlaybookData(playbook, {
+    new_key_points: [],
+    evaluations: [{ name: 'kpt_a', rating: 'helpful' }, { name: 'kpt_b', rating: 'harmful' }, { name: 'kpt_c', rating: 'neutral' }],
+  }, 'session-1', custom, NOW, NO_REVIEW);
+
+  const [a, b, c] = playbook.key_points;
+  assert.deepEqual([a.score, b.score, c.score], [2, -4, 0]);
+  assert.deepEqual(c.ratings, { helpful: 0, harmful: 0, neutral: 1 });
+  // Only helpful and harmful ratings count as seen
+  assert.equal(a.last_seen, NOW.toISOString());
+  assert.equal(c.last_seen, daysAgo(5));
+});
+
+test('updatePlaybookData prunes with the policy threshold and decay', () => {
+  setUp();
+  const playbook = emptyPlaybook();
+  playbook.key_points = [
+    keyPoint('kpt_low', { score: -1 }),
+    keyPoint('kpt_pinned', { score: -1, pinned: true }),
+    keyPoint('kpt_idle', { score: 1, last_seen: daysAgo(20) }),
+    keyPoint('kpt_fresh', { score: 1 }),
+  ];
+  const custom = policy({ harmful: -2, prune_threshold: -2, decay_grace_days: 10, decay_per_day: 0.5 });
+
+  updatePlaybookData(playbook, {
+    new_key_points: [],
+    evaluations: [{ name: 'kpt_low', rating: 'harmful' }, { name: 'kpt_pinned', rating: 'harmful' }],
+  }, 'session-1', custom, NOW, NO_REVIEW);
+
+  assert.deepEqual(playbook.key_points.map(kp => kp.name).sort(), ['kpt_fresh', 'kpt_pinned']);
+});
+
+test('loadScoringPolicy reads scoring from memoria.json', () => {
+  setUp({ scoring: { helpful: 3, penalize_neutral: false } });
+  assert.deepEqual(loadScoringPolicy(), policy({ helpful: 3, penalize_neutral: false }));
+});
+
+test('loadScoringPolicy reads the legacy playbook_scoring key from settings.json', () => {
+  setUp();
+  fs.writeFileSync(path.join(process.env['HOME']!, '.claude', 'settings.json'), JSON.stringify({ playbook_scoring: { harmful: -1 } }));
+  assert.deepEqual(loadScoringPolicy(), policy({ harmful: -1 }));
+});
@@ -0,0 +1,86 @@
+import type { KeyPoint } from './common.js';
+
+// How ratings move a key point's score and when it is pruned. Read from
+// `scoring` in memoria.json; every field is optional.
+export interface ScoringPolicy {
+  helpful: number;
+  harmful: number;
+  neutral: number;
+  // false: a "neutral" rating (not relevant to this session) costs nothing
+  penalize_neutral: boolean;
+  // Unpinned key points whose effective score drops to this or below are pruned
+  prune_threshold: number;
+  // Decay: after this many days without being seen, the effective score
+  // drops by `decay_per_day` per further day (0 disables decay)
+  decay_grace_days: number;
+  decay_per_day: number;
+}
+
+export const DEFAULT_SCORING_POLICY: ScoringPolicy = {
+  helpful: 1,
+  harmful: -3,
+  neutral: -1,
+  penalize_neutral: true,
+  prune_threshold: -5,
+  decay_grace_days: 30,
+  decay_per_day: 0,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fill in defaults for missing or malformed fields
+export function resolveScoringPolicy(raw: any): ScoringPolicy {
+  const policy = { ...DEFAULT_SCORING_POLICY };
+  if (!raw || typeof raw !== 'object') {
+    return policy;
+  }
+
+  for (const key of ['helpful', 'harmful', 'neutral', 'prune_threshold', 'decay_grace_days', 'decay_per_day'] as const) {
+    if (typeof raw[key] === 'number' && isFinite(raw[key])) {
+      policy[key] = raw[key];
+    }
+  }
+  if (typeof raw.penalize_neutral === 'boolean') {
+    policy.penalize_neutral = raw.penalize_neutral;
+  }
+  policy.decay_grace_days = Math.max(0, policy.decay_grace_days);
+  policy.decay_per_day = Math.max(0, policy.decay_per_day);
+  return policy;
+}
+
+export function ratingDelta(rating: string, policy: ScoringPolicy): number {
+  switch (rating) {
+    case 'helpful':
+      return policy.helpful;
+    case 'harmful':
+      return policy.harmful;
+    case 'neutral':
+      return policy.penalize_neutral ? policy.neutral : 0;
+    default:
+      return 0;
+  }
+}
+
+// Days since the key point was last seen (or created); 0 when unknown
+export function idleDays(kp: KeyPoint, now: Date): number {
+  const since = kp.last_seen || kp.created_at;
+  const time = since ? Date.parse(since) : NaN;
+  if (isNaN(time)) {
+    return 0;
+  }
+  return Math.max(0, (now.getTime() - time) / DAY_MS);
+}
+
+// The stored score minus decay; the stored score itself is never rewritten
+export function effectiveScore(kp: KeyPoint, policy: ScoringPolicy, now: Date): number {
+  const score = kp.score || 0;
+  if (!(policy.decay_per_day > 0)) {
+    return score;
+  }
+  const decayDays = Math.max(0, idleDays(kp, now) - policy.decay_grace_days);
+  return score - decayDays * policy.decay_per_day;
+}
+
+export function shouldPrune(kp: KeyPoint, policy: ScoringPolicy, now: Date): boolean {
+  return !kp.pinned && effectiveScore(kp, policy, now) <= policy.prune_threshold;
+}
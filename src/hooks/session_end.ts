@@ -1,13 +1,11 @@
 import * as fs from 'fs';
 import {
-  loadPlaybook,
-  savePlaybook,
-  loadTranscript,
-  extractKeypoints,
-  updatePlaybookData,
-  clearSession,
-  loadSettings,
+  runReflection,
 } from './common.js';
+import { getConfig } from './config.js';
+import { endSession } from './session_state.js';
+import { enqueueReflection, isQueueEnabled, startWorker } from './queue.js';
+import { useHookDeadline } from './retry.js';
 
 async function main() {
   let stdinBuffer: string;
@@ -40,16 +38,11 @@ async function main() {
     return;
   }
 
-  const messages = loadTranscript(transcriptPath);
+  await endSession(inputData.session_id || 'unknown');
 
-  if (!messages || messages.length === 0) {
-    process.exit(0);
-    return;
-  }
-
-  const settings = loadSettings();
-  const updateOnExit = settings.playbook_update_on_exit || false;
-  const updateOnClear = settings.playbook_update_on_clear || false;
+  const config = getConfig();
+  const updateOnExit = config.update_on_exit;
+  const updateOnClear = config.update_on_clear;
 
   const reason = inputData.reason || '';
 
@@ -63,17 +56,16 @@ async function main() {
     process.exit(0);
   }
 
-  let playbook = loadPlaybook();
-  const extractionResult = await extractKeypoints(
-    messages,
-    playbook,
-    'session_end_reflection'
-  );
-
-  playbook = updatePlaybookData(playbook, extractionResult);
-  savePlaybook(playbook);
-
-  clearSession();
+  // Reflection runs in a detached worker so the hook returns immediately and
+  // a slow or unreachable API does not lose the lesson. Only the messages not
+  // reflected on yet (e.g. by an earlier PreCompact) are analyzed.
+  if (isQueueEnabled()) {
+    enqueueReflection(transcriptPath, 'session_end_reflection', inputData.session_id);
+    startWorker();
+  } else {
+    useHookDeadline();
+    await runReflection(transcriptPath, 'session_end_reflection', inputData.session_id);
+  }
 }
 
 main().catch((error) => {
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import {
+  isDiagnosticMode,
+  saveDiagnostic,
+  reportConfigIssues,
+} from './common.js';
+import { isQueueEnabled, resumePendingJobs } from './queue.js';
+import { planInjection } from './session_state.js';
+
+// Optional: UserPromptSubmit does the same work on its own, but from here the
+// key points dropped by a compaction are back before the next prompt, and
+// with inject_on_session_start the playbook is there from the start.
+async function main() {
+  const stdinBuffer = fs.readFileSync(0, 'utf-8');
+  if (!stdinBuffer) {
+    console.log(JSON.stringify({}));
+    process.exit(0);
+  }
+
+  let inputData;
+  try {
+    inputData = JSON.parse(stdinBuffer);
+  } catch (e) {
+    console.log(JSON.stringify({}));
+    process.exit(0);
+  }
+
+  const { started, injection } = await planInjection({
+    sessionId: inputData.session_id || 'unknown',
+    trigger: 'session_start',
+    prompt: '',
+    transcriptPath: inputData.transcript_path,
+  });
+
+  if (started) {
+    reportConfigIssues();
+
+    // Catch up on reflections still queued from earlier sessions
+    if (isQueueEnabled()) {
+      resumePendingJobs();
+    }
+  }
+
+  if (!injection) {
+    console.log(JSON.stringify({}));
+    process.exit(0);
+  }
+
+  if (isDiagnosticMode()) {
+    saveDiagnostic(injection.context, `session_start_${injection.reason === 'after_compaction' ? 'reinject' : 'inject'}`);
+  }
+
+  const response = {
+    hookSpecificOutput: {
+      hookEventName: 'SessionStart',
+      additionalContext: injection.context,
+    },
+  };
+
+  console.log(JSON.stringify(response));
+}
+
+main().catch((error) => {
+  console.error(`Error: ${error}`);
+  console.log(JSON.stringify({}));
+  process.exit(1);
+});
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getSessionStatePath, markCompacted, planInjection } from './session_state.js';
+
+const LESSONS = [
+  { name: 'kpt_alpha', text: 'Lesson alpha', score: 3 },
+  { name: 'kpt_bravo', text: 'Lesson bravo', score: 2 },
+  { name: 'kpt_delta', text: 'Lesson delta', score: 1 },
+];
+
+function setUp(keyPoints: object[]): string {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-session-'));
+  fs.mkdirSync(path.join(root, 'home', '.claude'), { recursive: true });
+  fs.cpSync(path.join(process.cwd(), 'src', 'prompts'), path.join(root, 'home', '.claude', 'prompts'), { recursive: true });
+  fs.mkdirSync(path.join(root, 'project', '.claude'), { recursive: true });
+  fs.writeFileSync(path.join(root, 'project', '.claude', 'playbook.json'), JSON.stringify({ version: '2.0', last_updated: null, key_points: keyPoints }));
+
+  process.env['HOME'] = path.join(root, 'home');
+  process.env['CLAUDE_PROJECT_DIR'] = path.join(root, 'project');
+  return root;
+}
+
+async function prompt(sessionId: string, transcriptPath?: string): Promise<string[] | null> {
+  const { injection } = await planInjection({ sessionId, trigger: 'user_prompt', prompt: 'Fix the build', transcriptPath });
+  return injection && injectedLines(injection.context);
+}
+
+// Key point lines of the injected context
+function injectedLines(context: string | undefined): string[] {
+  return (context || '').split('\n').filter(line => line.startsWith('- '));
+}
+
+test('the first prompt picks key points by relevance and injects them by score', async () => {
+  setUp([
+    { name: 'kpt_migrations', text: 'Run the database migrations before the integration tests', score: 0 },
+    { name: 'kpt_docker', text: 'The integration tests need the docker daemon', score: 5 },
+    { name: 'kpt_pnpm', text: 'Install packages with pnpm', score: 9 },
+  ]);
+  process.env['AGENTIC_CONTEXT_INJECT_TOP_K'] = '2';
+  try {
+    const plan = await planInjection({ sessionId: 's1', trigger: 'user_prompt', prompt: 'Why do the integration tests fail after the migrations?' });
+
+    assert.equal(plan.started, true);
+    assert.equal(plan.injection?.reason, 'first_prompt');
+    assert.deepEqual(injectedLines(plan.injection?.context), [
+      '- The integration tests need the docker daemon',
+      '- Run the database migrations before the integration tests',
+    ]);
+  } finally {
+    delete process.env['AGENTIC_CONTEXT_INJECT_TOP_K'];
+  }
+});
+
+test('later prompts are answered without rewriting the session store', async () => {
+  setUp(LESSONS);
+  assert.equal((await prompt('s1'))!.length, 3);
+  const before = fs.readFileSync(getSessionStatePath(), 'utf-8');
+
+  assert.equal(await prompt('s1'), null);
+  assert.equal(fs.readFileSync(getSessionStatePath(), 'utf-8'), before);
+  // Another session still gets its own injection
+  assert.equal((await prompt('s2'))!.length, 3);
+});
+
+test('after a compaction only what the summary dropped is injected again', async () => {
+  const root = setUp(LESSONS);
+  const transcriptPath = path.join(root, 'transcript.jsonl');
+  fs.writeFileSync(transcriptPath, JSON.stringify({
+    type: 'user', isCompactSummary: true, message: { role: 'user', content: 'Summary. Lesson alpha. Lesson delta.' },
+  }) + '\n');
+
+  await prompt('s1', transcriptPath);
+  await markCompacted('s1');
+
+  const plan = await planInjection({ sessionId: 's1', trigger: 'user_prompt', prompt: 'Next', transcriptPath });
+  assert.equal(plan.injection?.reason, 'after_compaction');
+  assert.deepEqual(injectedLines(plan.injection?.context), ['- Lesson bravo']);
+  assert.equal(await prompt('s1', transcriptPath), null);
+});
+
+test('key points cut by the budget after a compaction follow at the next prompts', async () => {
+  setUp(LESSONS);
+  await prompt('s1');
+  await markCompacted('s1');
+
+  // Room for the template, the footer and one key point
+  process.env['AGENTIC_CONTEXT_INJECT_TOKEN_BUDGET'] = '58';
+  try {
+    assert.deepEqual(await prompt('s1'), ['- Lesson alpha', '- (2 more key points omitted to fit the context budget)']);
+    assert.deepEqual(await prompt('s1'), ['- Lesson bravo', '- (1 more key point omitted to fit the context budget)']);
+    assert.deepEqual(await prompt('s1'), ['- Lesson delta']);
+    assert.equal(await prompt('s1'), null);
+  } finally {
+    delete process.env['AGENTIC_CONTEXT_INJECT_TOKEN_BUDGET'];
+  }
+});
@@ -0,0 +1,269 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  KeyPoint,
+  getProjectDir,
+  isDiagnosticMode,
+  loadLayeredPlaybook,
+  renderPlaybook,
+  saveDiagnostic,
+} from './common.js';
+import { getConfig } from './config.js';
+import { getDedupThreshold, textSimilarity } from './dedupe.js';
+import { withFileLock, writeFileAtomic } from './lock.js';
+import { explainSelection, selectKeyPoints } from './ranking.js';
+import { isApproved } from './review.js';
+
+// What each running session was given, keyed by session id, so concurrent
+// sessions in one project do not reset each other and a compaction can be
+// followed by re-injecting exactly what it dropped. Entries are removed when
+// the session ends; abandoned ones expire after a week.
+
+export type InjectionReason = 'session_start' | 'first_prompt' | 'after_compaction';
+
+export interface InjectionRecord {
+  at: string;
+  reason: InjectionReason;
+  // Layered names, global key points prefixed with "global:"
+  key_points: string[];
+}
+
+export interface SessionState {
+  started_at: string;
+  updated_at: string;
+  // Key points currently in the session's context
+  injected: string[];
+  injections: InjectionRecord[];
+  // Set by PreCompact, cleared once the key points it dropped are known
+  compacted_at?: string;
+  // Dropped by a compaction and not back yet because the budget was spent
+  pending?: string[];
+}
+
+export type InjectionTrigger = 'session_start' | 'user_prompt';
+
+export interface InjectionRequest {
+  sessionId: string;
+  trigger: InjectionTrigger;
+  // Ranks the key points; empty at session start
+  prompt: string;
+  transcriptPath?: string;
+}
+
+export interface Injection {
+  reason: InjectionReason;
+  context: string;
+}
+
+export interface InjectionPlan {
+  // First hook call of the session
+  started: boolean;
+  injection: Injection | null;
+}
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const MAX_INJECTION_RECORDS = 20;
+
+// A session with nothing to inject only rewrites its entry this often, to
+// keep it from expiring
+const SESSION_REFRESH_MS = 60 * 60 * 1000;
+
+export function getSessionStatePath(): string {
+  return path.join(getProjectDir(), '.claude', 'sessions.json');
+}
+
+export function loadSessionStore(): Record<string, SessionState> {
+  try {
+    return JSON.parse(fs.readFileSync(getSessionStatePath(), 'utf-8'));
+  } catch (e) {
+    return {};
+  }
+}
+
+async function updateSessionStore<T>(fn: (store: Record<string, SessionState>, now: string) => T): Promise<T> {
+  const statePath = getSessionStatePath();
+
+  return withFileLock(statePath, () => {
+    const store = loadSessionStore();
+    for (const [sessionId, state] of Object.entries(store)) {
+      if (!(Date.now() - Date.parse(state.updated_at) <= SESSION_MAX_AGE_MS)) {
+        delete store[sessionId];
+      }
+    }
+
+    const result = fn(store, new Date().toISOString());
+    writeFileAtomic(statePath, JSON.stringify(store, null, 2));
+    return result;
+  });
+}
+
+// Called by PreCompact: whatever was injected may not survive the summary
+export async function markCompacted(sessionId: string): Promise<void> {
+  await updateSessionStore((store, now) => {
+    const state = store[sessionId];
+    if (state && state.injected.length > 0) {
+      state.compacted_at = now;
+      state.updated_at = now;
+    }
+  });
+}
+
+export async function endSession(sessionId: string): Promise<void> {
+  await updateSessionStore(store => {
+    delete store[sessionId];
+  });
+  // Single-session marker of earlier versions
+  fs.rmSync(path.join(getProjectDir(), '.claude', 'last_session.txt'), { force: true });
+}
+
+// Text of the summary that replaced the conversation at the latest compaction
+export function readCompactSummary(transcriptPath: string | undefined): string | null {
+  if (!transcriptPath) {
+    return null;
+  }
+
+  let lines: string[];
+  try {
+    lines = fs.readFileSync(transcriptPath, 'utf-8').split('\n');
+  } catch (e) {
+    return null;
+  }
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    let entry: any;
+    try {
+      entry = JSON.parse(lines[i]);
+    } catch (e) {
+      continue;
+    }
+    if (!entry?.isCompactSummary) {
+      continue;
+    }
+
+    const content = entry.message?.content;
+    if (Array.isArray(content)) {
+      return content.map((part: any) => (typeof part === 'string' ? part : part?.text || '')).join('\n');
+    }
+    return typeof content === 'string' ? content : null;
+  }
+  return null;
+}
+
+// Kept verbatim or as a close paraphrase of one of the summary's sentences
+function survivedCompaction(kp: KeyPoint, summary: string, threshold: number): boolean {
+  const flatten = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+  if (flatten(summary).includes(flatten(kp.text))) {
+    return true;
+  }
+  return summary
+    .split(/\n+|(?<=[.!?])\s+/)
+    .some(sentence => textSimilarity(sentence, kp.text) >= threshold);
+}
+
+function selectForSession(
+  request: InjectionRequest,
+  state: SessionState,
+  keyPoints: KeyPoint[]
+): { reason: InjectionReason; keyPoints: KeyPoint[] } | null {
+  const config = getConfig();
+
+  if (state.injections.length === 0) {
+    if (request.trigger === 'session_start' && !config.inject_on_session_start) {
+      return null;
+    }
+
+    // Only the key points most relevant to the first prompt (0 = all)
+    const selected = selectKeyPoints(keyPoints, request.prompt, config.inject_top_k);
+    if (isDiagnosticMode() && selected.length > 0) {
+      const hook = request.trigger === 'session_start' ? 'session_start' : 'user_prompt_inject';
+      saveDiagnostic(explainSelection(selected, keyPoints.length, request.prompt), `${hook}_selection`);
+    }
+    return {
+      reason: request.trigger === 'session_start' ? 'session_start' : 'first_prompt',
+      keyPoints: selected.map(r => r.keyPoint),
+    };
+  }
+
+  const byName = new Map(keyPoints.map(kp => [kp.name, kp]));
+  if (state.compacted_at) {
+    // Without a summary to compare against, assume everything was dropped
+    const summary = readCompactSummary(request.transcriptPath);
+    const threshold = getDedupThreshold();
+    const dropped = state.injected
+      .map(name => byName.get(name))
+      .filter((kp): kp is KeyPoint => Boolean(kp))
+      .filter(kp => !summary || !survivedCompaction(kp, summary, threshold))
+      .map(kp => kp.name);
+
+    delete state.compacted_at;
+    state.injected = state.injected.filter(name => !dropped.includes(name));
+    state.pending = [...new Set([...(state.pending || []), ...dropped])];
+  }
+
+  // Key points deleted from the playbook since are not brought back
+  const pending = (state.pending || [])
+    .map(name => byName.get(name))
+    .filter((kp): kp is KeyPoint => Boolean(kp));
+  if (pending.length === 0) {
+    delete state.pending;
+    return null;
+  }
+  return { reason: 'after_compaction', keyPoints: pending };
+}
+
+// Most prompts of a session need nothing; they are answered from the store
+// alone, without loading the playbook or taking the lock
+function nothingToInject(state: SessionState | undefined): boolean {
+  return state !== undefined &&
+         state.injections.length > 0 &&
+         !state.compacted_at &&
+         !(state.pending && state.pending.length > 0) &&
+         Date.now() - Date.parse(state.updated_at) < SESSION_REFRESH_MS;
+}
+
+// The context this hook call should add, if any: the playbook once per
+// session, then after each compaction only the injected key points the
+// summary lost.
+export async function planInjection(request: InjectionRequest): Promise<InjectionPlan> {
+  if (nothingToInject(loadSessionStore()[request.sessionId])) {
+    return { started: false, injection: null };
+  }
+
+  // Key points still pending review are never injected
+  const layered = loadLayeredPlaybook();
+  const playbook = { ...layered, key_points: layered.key_points.filter(isApproved) };
+
+  return updateSessionStore((store, now) => {
+    const started = !store[request.sessionId];
+    const state: SessionState = store[request.sessionId] || { started_at: now, updated_at: now, injected: [], injections: [] };
+    store[request.sessionId] = state;
+    state.updated_at = now;
+
+    const selection = selectForSession(request, state, playbook.key_points);
+    if (!selection) {
+      return { started, injection: null };
+    }
+
+    // Relevance decided which key points; they are shown, and cut to the
+    // budget, by score like everywhere else
+    const { text, included } = renderPlaybook({ ...playbook, key_points: selection.keyPoints });
+    const names = included.map(kp => kp.name);
+    // The rest are tried again at the next prompt; when none fit at all,
+    // none ever will
+    if (state.pending) {
+      state.pending = names.length > 0 ? state.pending.filter(name => !names.includes(name)) : [];
+      if (state.pending.length === 0) {
+        delete state.pending;
+      }
+    }
+    if (!text) {
+      return { started, injection: null };
+    }
+
+    state.injected = [...new Set([...state.injected, ...names])];
+    state.injections = [...state.injections, { at: now, reason: selection.reason, key_points: names }]
+      .slice(-MAX_INJECTION_RECORDS);
+    return { started, injection: { reason: selection.reason, context: text } };
+  });
+}
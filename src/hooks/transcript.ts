@@ -0,0 +1,86 @@
+import { getConfig } from './config.js';
+
+// Compact, size-capped summaries of tool calls and tool results, so the
+// reflector sees failed commands and errors without whole file dumps.
+
+export function getToolInputLimit(): number {
+  return getConfig().tool_input_chars;
+}
+
+export function getToolResultLimit(): number {
+  return getConfig().tool_result_chars;
+}
+
+// Keep the head and the tail: errors usually sit at the end of long output
+export function truncateMiddle(text: string, limit: number): string {
+  const clean = text.trim();
+  if (!(limit > 0) || clean.length <= limit) {
+    return clean;
+  }
+  const head = Math.ceil(limit * 0.4);
+  const tail = limit - head;
+  return `${clean.slice(0, head)} …[${clean.length - limit} chars omitted]… ${clean.slice(-tail)}`;
+}
+
+// The single most telling input field per tool; anything else is shown as JSON
+const KEY_INPUT_FIELDS: Record<string, string[]> = {
+  Bash: ['command'],
+  Read: ['file_path'],
+  Write: ['file_path'],
+  Edit: ['file_path'],
+  MultiEdit: ['file_path'],
+  NotebookEdit: ['notebook_path'],
+  Grep: ['pattern', 'path'],
+  Glob: ['pattern', 'path'],
+  WebFetch: ['url'],
+  WebSearch: ['query'],
+  Task: ['description'],
+};
+
+export function summarizeToolUse(name: string, input: any): string {
+  const fields = KEY_INPUT_FIELDS[name];
+  let detail: string;
+
+  if (fields && input && typeof input === 'object') {
+    detail = fields
+      .filter(field => input[field] !== undefined)
+      .map(field => `${field}: ${String(input[field])}`)
+      .join(', ');
+  } else {
+    detail = input === undefined ? '' : JSON.stringify(input);
+  }
+
+  return `[tool_use ${name}] ${truncateMiddle(detail, getToolInputLimit())}`.trim();
+}
+
+function toolResultText(content: any): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map(item => {
+        if (item && item.type === 'text' && typeof item.text === 'string') return item.text;
+        if (item && item.type === 'image') return '[image]';
+        return '';
+      })
+      .filter(Boolean)
+      .join('\n');
+  }
+  return '';
+}
+
+export function summarizeToolResult(toolName: string, content: any, isError: boolean): string {
+  const text = toolResultText(content);
+  const exitCode = text.match(/exit code:?\s*(-?\d+)/i);
+
+  let status = isError ? 'error' : 'ok';
+  if (exitCode && exitCode[1] !== '0') {
+    status = `exit ${exitCode[1]}`;
+  }
+
+  // Successful output is rarely instructive; keep only a short excerpt of it
+  const limit = status === 'ok' ? Math.min(getToolResultLimit(), 120) : getToolResultLimit();
+  const excerpt = truncateMiddle(text, limit);
+  return `[tool_result ${toolName} ${status}]${excerpt ? ` ${excerpt}` : ''}`;
+}
@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_PRICES,
+  UsageRecord,
+  appendUsage,
+  estimateCost,
+  findPrice,
+  getUsageLedgerPath,
+  readUsage,
+  resolvePrices,
+  summarizeUsage,
+} from './usage.js';
+
+function record(fields: Partial<UsageRecord>): UsageRecord {
+  return {
+    timestamp: '2025-06-01T12:00:00.000Z',
+    project: '/work/api',
+    trigger: 'session_end',
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-5-20250929',
+    thinking_budget: 0,
+    rounds: 1,
+    calls: 1,
+    duration_ms: 1000,
+    failed: false,
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_read_input_tokens: 0,
+    cache_creation_input_tokens: 0,
+    ...fields,
+  };
+}
+
+function close(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+}
+
+test('the ledger appends one line per run and skips torn lines', () => {
+  const claudeDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-usage-')), '.claude');
+  const ledgerPath = getUsageLedgerPath(claudeDir);
+  assert.deepEqual(readUsage(ledgerPath), []);
+
+  const first = record({ input_tokens: 100 });
+  const second = record({ trigger: 'precompact', failed: true });
+  appendUsage(ledgerPath, first);
+  fs.appendFileSync(ledgerPath, '{"timestamp": "2025-06-\n\n');
+  appendUsage(ledgerPath, second);
+
+  assert.deepEqual(readUsage(ledgerPath), [first, second]);
+});
+
+test('a price matches the model exactly or by its longest prefix', () => {
+  assert.equal(findPrice('claude-opus-4-5-20251101', DEFAULT_PRICES), DEFAULT_PRICES['claude-opus-4-5']);
+  assert.equal(findPrice('claude-opus-4-1-20250805', DEFAULT_PRICES), DEFAULT_PRICES['claude-opus-4']);
+  assert.equal(findPrice('gpt-4o-mini-2024-07-18', DEFAULT_PRICES), DEFAULT_PRICES['gpt-4o-mini']);
+  assert.equal(findPrice('gpt-4o', DEFAULT_PRICES), DEFAULT_PRICES['gpt-4o']);
+  assert.equal(findPrice('llama3', DEFAULT_PRICES), null);
+});
+
+test('configured prices replace or extend the defaults', () => {
+  const prices = resolvePrices({
+    'claude-sonnet-4': { input: 1, output: 2 },
+    'llama': { input: 0.1, output: -1, cache_read: 'free' },
+    'broken': 5,
+  });
+  assert.deepEqual(prices['claude-sonnet-4'], { input: 1, output: 2, cache_read: 0, cache_write: 0 });
+  assert.deepEqual(prices['llama'], { input: 0.1, output: 0, cache_read: 0, cache_write: 0 });
+  assert.equal(prices['broken'], undefined);
+  assert.equal(prices['gpt-4o'], DEFAULT_PRICES['gpt-4o']);
+  assert.deepEqual(resolvePrices(undefined), DEFAULT_PRICES);
+});
+
+test('the cost counts every kind of token at its own price', () => {
+  const usage = { input_tokens: 1_000_000, output_tokens: 200_000, cache_read_input_tokens: 500_000, cache_creation_input_tokens: 100_000 };
+  // Sonnet: 3 + 0.2 * 15 + 0.5 * 0.3 + 0.1 * 3.75
+  close(estimateCost(record(usage), DEFAULT_PRICES)!, 6.525);
+  assert.equal(estimateCost(record({ ...usage, model: 'llama3' }), DEFAULT_PRICES), null);
+  // Entries written before a field existed count it as zero
+  const { cache_creation_input_tokens: _unused, ...older } = record(usage);
+  close(estimateCost(older as UsageRecord, DEFAULT_PRICES)!, 6.15);
+});
+
+test('the summaries add up runs, tokens and cost per group', () => {
+  const records = [
+    record({ timestamp: '2025-06-02T09:00:00.000Z', input_tokens: 1000, cache_read_input_tokens: 3000 }),
+    record({ timestamp: '2025-06-01T23:59:00.000Z', trigger: 'precompact', output_tokens: 1000, failed: true }),
+    record({ timestamp: '2025-06-02T18:00:00.000Z', model: 'llama3', input_tokens: 500 }),
+  ];
+
+  const [total] = summarizeUsage(records, DEFAULT_PRICES);
+  assert.deepEqual({ ...total, cost: 0 }, {
+    key: 'total',
+    runs: 3,
+    failed: 1,
+    input_tokens: 1500,
+    output_tokens: 1000,
+    cache_read_input_tokens: 3000,
+    cache_creation_input_tokens: 0,
+    cache_hit_rate: 3000 / 4500,
+    cost: 0,
+    unpriced: 1,
+  });
+  // 1000 * 3 + 3000 * 0.3 + 1000 * 15 per million; llama3 is left out
+  close(total.cost, 0.0189);
+
+  const byDay = summarizeUsage(records, DEFAULT_PRICES, 'day');
+  assert.deepEqual(byDay.map(s => [s.key, s.runs]), [['2025-06-01', 1], ['2025-06-02', 2]]);
+  const byTrigger = summarizeUsage(records, DEFAULT_PRICES, 'trigger');
+  assert.deepEqual(byTrigger.map(s => [s.key, s.runs, s.failed]), [['precompact', 1, 1], ['session_end', 2, 0]]);
+  close(byTrigger.reduce((sum, s) => sum + s.cost, 0), total.cost);
+
+  assert.deepEqual(summarizeUsage([], DEFAULT_PRICES), []);
+});
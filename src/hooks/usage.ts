@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CompletionUsage } from './providers.js';
+
+// One line per extractKeypoints() call in ~/.claude/usage.jsonl. Token counts
+// are summed over all rounds and repair calls; input_tokens excludes cached
+// input, as with the Anthropic API.
+export interface UsageRecord extends CompletionUsage {
+  timestamp: string;
+  project: string;
+  trigger: string;
+  provider: string;
+  model: string;
+  thinking_budget: number;
+  rounds: number;
+  calls: number;
+  duration_ms: number;
+  failed: boolean;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cache_read: number;
+  cache_write: number;
+}
+
+// Keys match a model name exactly or as its longest prefix, so
+// "claude-sonnet-4-5" also prices "claude-sonnet-4-5-20250929".
+// Override or extend with `prices` in memoria.json.
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5': { input: 5, output: 25, cache_read: 0.5, cache_write: 6.25 },
+  'claude-opus-4': { input: 15, output: 75, cache_read: 1.5, cache_write: 18.75 },
+  'claude-sonnet-4': { input: 3, output: 15, cache_read: 0.3, cache_write: 3.75 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cache_read: 0.3, cache_write: 3.75 },
+  'claude-haiku-4-5': { input: 1, output: 5, cache_read: 0.1, cache_write: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cache_read: 0.08, cache_write: 1 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cache_read: 0.075, cache_write: 0 },
+  'gpt-4o': { input: 2.5, output: 10, cache_read: 1.25, cache_write: 0 },
+};
+
+export type UsageGrouping = 'day' | 'project' | 'trigger' | 'model';
+
+export const USAGE_GROUPINGS: UsageGrouping[] = ['day', 'project', 'trigger', 'model'];
+
+export interface UsageSummary {
+  key: string;
+  runs: number;
+  failed: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_input_tokens: number;
+  cache_creation_input_tokens: number;
+  // Share of all input tokens that were read from the cache
+  cache_hit_rate: number;
+  cost: number;
+  // Runs whose model has no price; they are left out of `cost`
+  unpriced: number;
+}
+
+export function getUsageLedgerPath(userClaudeDir: string): string {
+  return path.join(userClaudeDir, 'usage.jsonl');
+}
+
+// Invalid entries are ignored; a user entry replaces the default of the same name
+export function resolvePrices(raw: any): Record<string, ModelPrice> {
+  const prices = { ...DEFAULT_PRICES };
+  if (!raw || typeof raw !== 'object') {
+    return prices;
+  }
+
+  for (const [model, price] of Object.entries<any>(raw)) {
+    if (!price || typeof price !== 'object') continue;
+    const number = (value: any) => (typeof value === 'number' && isFinite(value) && value >= 0 ? value : 0);
+    prices[model] = {
+      input: number(price.input),
+      output: number(price.output),
+      cache_read: number(price.cache_read),
+      cache_write: number(price.cache_write),
+    };
+  }
+  return prices;
+}
+
+export function findPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | null {
+  if (prices[model]) {
+    return prices[model];
+  }
+  const prefix = Object.keys(prices)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+// Null when the model has no price
+export function estimateCost(record: UsageRecord, prices: Record<string, ModelPrice>): number | null {
+  const price = findPrice(record.model, prices);
+  if (!price) {
+    return null;
+  }
+  return (
+    (record.input_tokens || 0) * price.input +
+    (record.output_tokens || 0) * price.output +
+    (record.cache_read_input_tokens || 0) * price.cache_read +
+    (record.cache_creation_input_tokens || 0) * price.cache_write
+  ) / 1_000_000;
+}
+
+export function appendUsage(ledgerPath: string, record: UsageRecord): void {
+  fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+  fs.appendFileSync(ledgerPath, JSON.stringify(record) + '\n', 'utf-8');
+}
+
+export function readUsage(ledgerPath: string): UsageRecord[] {
+  if (!fs.existsSync(ledgerPath)) {
+    return [];
+  }
+
+  const records: UsageRecord[] = [];
+  for (const line of fs.readFileSync(ledgerPath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch (e) {
+      // Skip a torn line rather than losing the whole ledger
+      continue;
+    }
+  }
+  return records;
+}
+
+function groupKey(record: UsageRecord, grouping: UsageGrouping): string {
+  switch (grouping) {
+    case 'day':
+      return String(record.timestamp).slice(0, 10);
+    case 'project':
+      return record.project;
+    case 'trigger':
+      return record.trigger;
+    case 'model':
+      return record.model;
+  }
+}
+
+function emptySummary(key: string): UsageSummary {
+  return {
+    key,
+    runs: 0,
+    failed: 0,
+    input_tokens: 0,
+    output_tokens: 0,
+    cache_read_input_tokens: 0,
+    cache_creation_input_tokens: 0,
+    cache_hit_rate: 0,
+    cost: 0,
+    unpriced: 0,
+  };
+}
+
+// Summaries sorted by key; with no grouping a single "total" summary
+export function summarizeUsage(
+  records: UsageRecord[],
+  prices: Record<string, ModelPrice>,
+  grouping?: UsageGrouping
+): UsageSummary[] {
+  const summaries = new Map<string, UsageSummary>();
+
+  for (const record of records) {
+    const key = grouping ? groupKey(record, grouping) : 'total';
+    const summary = summaries.get(key) || emptySummary(key);
+    summaries.set(key, summary);
+
+    summary.runs++;
+    if (record.failed) summary.failed++;
+    summary.input_tokens += record.input_tokens || 0;
+    summary.output_tokens += record.output_tokens || 0;
+    summary.cache_read_input_tokens += record.cache_read_input_tokens || 0;
+    summary.cache_creation_input_tokens += record.cache_creation_input_tokens || 0;
+
+    const cost = estimateCost(record, prices);
+    if (cost === null) {
+      summary.unpriced++;
+    } else {
+      summary.cost += cost;
+    }
+  }
+
+  for (const summary of summaries.values()) {
+    const totalInput = summary.input_tokens + summary.cache_read_input_tokens + summary.cache_creation_input_tokens;
+    summary.cache_hit_rate = totalInput > 0 ? summary.cache_read_input_tokens / totalInput : 0;
+  }
+
+  return [...summaries.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
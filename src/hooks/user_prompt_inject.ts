@@ -1,14 +1,13 @@
 import * as fs from 'fs';
 import {
-  loadPlaybook,
-  formatPlaybook,
   isDiagnosticMode,
   saveDiagnostic,
-  isFirstMessage,
-  markSession,
+  reportConfigIssues,
 } from './common.js';
+import { isQueueEnabled, resumePendingJobs } from './queue.js';
+import { planInjection } from './session_state.js';
 
-function main() {
+async function main() {
   const stdinBuffer = fs.readFileSync(0, 'utf-8');
   if (!stdinBuffer) {
     console.log(JSON.stringify({}));
@@ -24,25 +23,34 @@ function main() {
   }
 
   const sessionId = inputData.session_id || 'unknown';
+  const prompt = typeof inputData.prompt === 'string' ? inputData.prompt : '';
 
-  if (!isFirstMessage(sessionId)) {
-    console.log(JSON.stringify({}));
-    process.exit(0);
-  }
+  // Nothing on most prompts: the session got the playbook at its first prompt
+  // (or at session start) and, after a compaction, what the summary dropped
+  const { started, injection } = await planInjection({
+    sessionId,
+    trigger: 'user_prompt',
+    prompt,
+    transcriptPath: inputData.transcript_path,
+  });
 
-  const playbook = loadPlaybook();
-  const context = formatPlaybook(playbook);
+  if (started) {
+    reportConfigIssues();
 
-  if (!context) {
-    if (isDiagnosticMode()) {
-      saveDiagnostic('No context keys to inject (playbook is empty or score too low).', 'user_prompt_inject_empty');
+    // Catch up on reflections still queued from earlier sessions
+    if (isQueueEnabled()) {
+      resumePendingJobs();
     }
+  }
+
+  if (!injection) {
     console.log(JSON.stringify({}));
     process.exit(0);
   }
 
+  const context = injection.context;
   if (isDiagnosticMode()) {
-    saveDiagnostic(context, 'user_prompt_inject');
+    saveDiagnostic(context, injection.reason === 'after_compaction' ? 'user_prompt_reinject' : 'user_prompt_inject');
   }
 
   const response = {
@@ -53,14 +61,10 @@ function main() {
   };
 
   console.log(JSON.stringify(response));
-
-  markSession(sessionId);
 }
 
-try {
-  main();
-} catch (error) {
+main().catch((error) => {
   console.error(`Error: ${error}`);
   console.log(JSON.stringify({}));
   process.exit(1);
-}
+});
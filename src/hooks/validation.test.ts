@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createKeyPoint, emptyPlaybook, extractKeypoints } from './common.js';
+import { buildRepairPrompt, extractJson, parseReflection, validateReflection } from './validation.js';
+
+const KNOWN = new Set(['kpt_a', 'kpt_b']);
+const VALID = '{"new_key_points": ["Use pnpm"], "evaluations": [{"name": "kpt_a", "rating": "helpful"}]}';
+
+test('extractJson finds the reflection in fences and prose', () => {
+  const expected = JSON.parse(VALID);
+  assert.deepEqual(extractJson(VALID), expected);
+  assert.deepEqual(extractJson(`Here you go:\n\`\`\`json\n${VALID}\n\`\`\`\nLet me know!`), expected);
+  assert.deepEqual(extractJson(`Result: ${VALID} I hope the braces } in this { prose do not matter.`), expected);
+  // Another object before the reflection does not win
+  assert.deepEqual(extractJson(`Example: {"name": "x"}\nAnswer: ${VALID}`), expected);
+  // Braces inside strings are not structure
+  assert.deepEqual(extractJson('{"new_key_points": ["Escape } and \\" in strings"], "evaluations": []}').new_key_points, ['Escape } and " in strings']);
+
+  assert.deepEqual(extractJson('Only {"other": 1} here'), { other: 1 });
+  assert.equal(extractJson('No JSON at all'), undefined);
+  assert.equal(extractJson('[1, 2]'), undefined);
+});
+
+test('validateReflection keeps the usable parts and reports the rest', () => {
+  const { output, issues, fatal } = validateReflection({
+    new_key_points: [
+      '  Use pnpm  ',
+      '',
+      { text: 'Run the linter', scope: 'team', category: 'rule', evidence: { quote: '  npm   run lint ', message: -1 } },
+      { scope: 'global' },
+      42,
+    ],
+    evaluations: [
+      { name: 'kpt_a', rating: 'helpful', evidence: 'It worked' },
+      { name: 'kpt_a', rating: 'harmful' },
+      { name: 'kpt_b', rating: 'great' },
+      { name: 'kpt_z', rating: 'helpful' },
+      { rating: 'neutral' },
+    ],
+    insights: ['One', 2],
+    found_root_cause: 'yes',
+    no_new_insights: true,
+  }, KNOWN);
+
+  assert.equal(fatal, false);
+  assert.deepEqual(output, {
+    new_key_points: ['Use pnpm', { text: 'Run the linter', evidence: { quote: 'npm run lint' } }],
+    evaluations: [{ name: 'kpt_a', rating: 'helpful', evidence: { quote: 'It worked' } }],
+    insights: ['One'],
+    no_new_insights: true,
+  });
+  assert.deepEqual(issues.map(issue => issue.path), [
+    'new_key_points[1]',
+    'new_key_points[2].scope',
+    'new_key_points[2].category',
+    'new_key_points[2].evidence.message',
+    'new_key_points[3]',
+    'new_key_points[4]',
+    'evaluations[1]',
+    'evaluations[2]',
+    'evaluations[3]',
+    'evaluations[4]',
+    'insights',
+  ]);
+  assert.match(issues[7].message, /unknown rating/);
+});
+
+test('a response of the wrong shape is fatal', () => {
+  assert.equal(validateReflection(undefined, KNOWN).fatal, true);
+  assert.equal(validateReflection({ new_key_points: [] }, KNOWN).fatal, true);
+  assert.equal(validateReflection({ new_key_points: 'Use pnpm', evaluations: [] }, KNOWN).fatal, true);
+  assert.equal(validateReflection({ new_key_points: [], evaluations: {} }, KNOWN).fatal, true);
+  assert.equal(validateReflection({ new_key_points: [], evaluations: [] }, KNOWN).fatal, false);
+
+  const empty = parseReflection('  ', KNOWN);
+  assert.deepEqual([empty.fatal, empty.issues[0].message], [true, 'empty response']);
+});
+
+test('buildRepairPrompt quotes the response and lists the problems', () => {
+  const prompt = buildRepairPrompt('Original prompt', 'Sorry, I cannot', [
+    { path: '$', message: 'response does not contain a JSON object' },
+    { path: 'evaluations', message: 'missing' },
+  ]);
+
+  assert.ok(prompt.startsWith('Original prompt\n\n# Your Previous Response\nSorry, I cannot\n'));
+  assert.match(prompt, /- \$: response does not contain a JSON object\n- evaluations: missing/);
+  assert.match(prompt, /Respond again with only the corrected JSON object/);
+});
+
+function setUp(script: string[], repairAttempts: number): void {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'memoria-validation-'));
+  fs.mkdirSync(path.join(root, 'home', '.claude'), { recursive: true });
+  fs.cpSync(path.join(process.cwd(), 'src', 'prompts'), path.join(root, 'home', '.claude', 'prompts'), { recursive: true });
+  fs.writeFileSync(path.join(root, 'script.json'), JSON.stringify(script));
+
+  process.env['HOME'] = path.join(root, 'home');
+  process.env['CLAUDE_PROJECT_DIR'] = path.join(root, 'project');
+  process.env['AGENTIC_CONTEXT_PROVIDER'] = 'scripted';
+  process.env['AGENTIC_CONTEXT_SCRIPT_FILE'] = path.join(root, 'script.json');
+  process.env['AGENTIC_CONTEXT_REPAIR_ATTEMPTS'] = String(repairAttempts);
+}
+
+function tearDown(): void {
+  for (const name of ['AGENTIC_CONTEXT_PROVIDER', 'AGENTIC_CONTEXT_SCRIPT_FILE', 'AGENTIC_CONTEXT_REPAIR_ATTEMPTS']) {
+    delete process.env[name];
+  }
+}
+
+async function reflect(): Promise<ReturnType<typeof extractKeypoints>> {
+  const playbook = emptyPlaybook();
+  playbook.key_points = [createKeyPoint('kpt_a', 'Lesson a')];
+  return extractKeypoints([{ role: 'user', content: 'Install the dependencies' }], playbook);
+}
+
+test('an unusable response is sent back for repair', async () => {
+  setUp(['I could not find anything worth noting.', VALID], 1);
+  try {
+    const result = await reflect();
+    assert.equal(result.failed, undefined);
+    assert.deepEqual(result.new_key_points, ['Use pnpm']);
+    assert.deepEqual(result.evaluations.map(e => [e.name, e.rating]), [['kpt_a', 'helpful']]);
+  } finally {
+    tearDown();
+  }
+});
+
+test('the reflection fails once the repair attempts are used up', async () => {
+  setUp(['Nothing here.', '{"new_key_points": "Use pnpm"}', VALID], 1);
+  try {
+    const result = await reflect();
+    assert.equal(result.failed, true);
+    assert.deepEqual(result.new_key_points, []);
+  } finally {
+    tearDown();
+  }
+});
@@ -0,0 +1,276 @@
+import type { ExtractionResult, KeyPointEvaluation, NewKeyPoint } from './common.js';
+import { Evidence, MAX_QUOTE_CHARS } from './provenance.js';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  value?: unknown;
+}
+
+// Parsed reflection output plus the multi-round control flags
+export interface ReflectionOutput extends ExtractionResult {
+  found_root_cause?: boolean;
+  no_new_insights?: boolean;
+  insights_depth?: string;
+}
+
+export interface ValidationReport {
+  output: ReflectionOutput;
+  issues: ValidationIssue[];
+  // The response as a whole was unusable (no JSON, wrong shape); worth a repair
+  fatal: boolean;
+}
+
+const RATINGS = new Set(['helpful', 'harmful', 'neutral']);
+const SCOPES = new Set(['project', 'global']);
+const CATEGORIES = new Set(['failure', 'pattern', 'preference', 'fact']);
+
+const EVIDENCE_SCHEMA = {
+  type: 'object',
+  properties: {
+    quote: { type: 'string' },
+    message: { type: 'integer' },
+  },
+};
+
+// JSON schema of the reflection output, for providers with structured output
+export const REFLECTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    new_key_points: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          scope: { type: 'string', enum: ['project', 'global'] },
+          category: { type: 'string', enum: ['failure', 'pattern', 'preference', 'fact'] },
+          evidence: EVIDENCE_SCHEMA,
+        },
+        required: ['text', 'scope', 'category'],
+      },
+    },
+    evaluations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          rating: { type: 'string', enum: ['helpful', 'harmful', 'neutral'] },
+          evidence: EVIDENCE_SCHEMA,
+        },
+        required: ['name', 'rating'],
+      },
+    },
+    insights: { type: 'array', items: { type: 'string' } },
+    found_root_cause: { type: 'boolean' },
+    no_new_insights: { type: 'boolean' },
+    insights_depth: { type: 'string' },
+  },
+  required: ['new_key_points', 'evaluations'],
+};
+
+// Every balanced {...} span in the text, ignoring braces inside strings
+function objectSpans(text: string): string[] {
+  const spans: string[] = [];
+  for (let start = text.indexOf('{'); start !== -1; start = text.indexOf('{', start + 1)) {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+      if (inString) {
+        if (ch === '\\') i++;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === '{') {
+        depth++;
+      } else if (ch === '}') {
+        depth--;
+        if (depth === 0) {
+          spans.push(text.substring(start, i + 1));
+          break;
+        }
+      }
+    }
+  }
+  return spans;
+}
+
+// Find the reflection JSON in a response that may wrap it in prose or code
+// fences. Prefers an object that has the expected top-level keys.
+export function extractJson(text: string): any {
+  const candidates: string[] = [text.trim()];
+
+  const fence = /```(?:json)?\s*([\s\S]*?)```/g;
+  let match: RegExpExecArray | null;
+  while ((match = fence.exec(text)) !== null) {
+    candidates.push(match[1].trim());
+  }
+  candidates.push(...objectSpans(text));
+
+  let fallback: any = undefined;
+  for (const candidate of candidates) {
+    try {
+      const value = JSON.parse(candidate);
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        if ('new_key_points' in value || 'evaluations' in value) {
+          return value;
+        }
+        if (fallback === undefined) fallback = value;
+      }
+    } catch (e) {
+      continue;
+    }
+  }
+  return fallback;
+}
+
+// Evidence is optional and never makes a response unusable; malformed parts
+// are dropped. A bare string counts as the quote.
+function validateEvidence(raw: any, path: string, issues: ValidationIssue[]): Evidence | undefined {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (typeof raw === 'string') {
+    raw = { quote: raw };
+  }
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    issues.push({ path, message: 'evidence must be an object, dropped', value: raw });
+    return undefined;
+  }
+
+  const evidence: Evidence = {};
+  if (typeof raw.quote === 'string' && raw.quote.trim()) {
+    const quote = raw.quote.trim().replace(/\s+/g, ' ');
+    evidence.quote = quote.length > MAX_QUOTE_CHARS ? `${quote.slice(0, MAX_QUOTE_CHARS - 3)}...` : quote;
+  } else if (raw.quote !== undefined) {
+    issues.push({ path: `${path}.quote`, message: 'must be a non-empty string, dropped', value: raw.quote });
+  }
+  if (Number.isInteger(raw.message) && raw.message >= 0) {
+    evidence.message = raw.message;
+  } else if (raw.message !== undefined) {
+    issues.push({ path: `${path}.message`, message: 'must be a message index, dropped', value: raw.message });
+  }
+  return evidence.quote !== undefined || evidence.message !== undefined ? evidence : undefined;
+}
+
+export function validateReflection(raw: any, knownNames: Set<string>): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  const output: ReflectionOutput = { new_key_points: [], evaluations: [] };
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    issues.push({ path: '$', message: 'response does not contain a JSON object' });
+    return { output, issues, fatal: true };
+  }
+
+  let fatal = false;
+
+  if (raw.new_key_points === undefined) {
+    issues.push({ path: 'new_key_points', message: 'missing' });
+    fatal = true;
+  } else if (!Array.isArray(raw.new_key_points)) {
+    issues.push({ path: 'new_key_points', message: 'must be an array', value: raw.new_key_points });
+    fatal = true;
+  } else {
+    raw.new_key_points.forEach((item: any, i: number) => {
+      const itemPath = `new_key_points[${i}]`;
+      if (typeof item === 'string') {
+        if (item.trim()) {
+          output.new_key_points.push(item.trim());
+        } else {
+          issues.push({ path: itemPath, message: 'empty key point dropped' });
+        }
+        return;
+      }
+      if (!item || typeof item !== 'object' || typeof item.text !== 'string' || !item.text.trim()) {
+        issues.push({ path: itemPath, message: 'key point without text dropped', value: item });
+        return;
+      }
+
+      const kp: NewKeyPoint = { text: item.text.trim() };
+      if (item.scope !== undefined) {
+        if (SCOPES.has(item.scope)) {
+          kp.scope = item.scope;
+        } else {
+          issues.push({ path: `${itemPath}.scope`, message: 'unknown scope, using "project"', value: item.scope });
+        }
+      }
+      if (item.category !== undefined) {
+        if (CATEGORIES.has(item.category)) {
+          kp.category = item.category;
+        } else {
+          issues.push({ path: `${itemPath}.category`, message: 'unknown category dropped', value: item.category });
+        }
+      }
+      const evidence = validateEvidence(item.evidence, `${itemPath}.evidence`, issues);
+      if (evidence) {
+        kp.evidence = evidence;
+      }
+      output.new_key_points.push(kp);
+    });
+  }
+
+  if (raw.evaluations === undefined) {
+    issues.push({ path: 'evaluations', message: 'missing' });
+    fatal = true;
+  } else if (!Array.isArray(raw.evaluations)) {
+    issues.push({ path: 'evaluations', message: 'must be an array', value: raw.evaluations });
+    fatal = true;
+  } else {
+    const seen = new Set<string>();
+    raw.evaluations.forEach((item: any, i: number) => {
+      const itemPath = `evaluations[${i}]`;
+      if (!item || typeof item !== 'object' || typeof item.name !== 'string') {
+        issues.push({ path: itemPath, message: 'evaluation without name dropped', value: item });
+      } else if (!knownNames.has(item.name)) {
+        issues.push({ path: itemPath, message: `unknown key point ${item.name} dropped` });
+      } else if (!RATINGS.has(item.rating)) {
+        issues.push({ path: itemPath, message: `unknown rating for ${item.name} dropped`, value: item.rating });
+      } else if (seen.has(item.name)) {
+        issues.push({ path: itemPath, message: `duplicate evaluation for ${item.name} dropped` });
+      } else {
+        seen.add(item.name);
+        const evaluation: KeyPointEvaluation = { name: item.name, rating: item.rating };
+        const evidence = validateEvidence(item.evidence, `${itemPath}.evidence`, issues);
+        if (evidence) {
+          evaluation.evidence = evidence;
+        }
+        output.evaluations.push(evaluation);
+      }
+    });
+  }
+
+  if (raw.insights !== undefined) {
+    if (Array.isArray(raw.insights)) {
+      output.insights = raw.insights.filter((insight: any) => typeof insight === 'string');
+      if (output.insights!.length !== raw.insights.length) {
+        issues.push({ path: 'insights', message: 'non-string insights dropped' });
+      }
+    } else {
+      issues.push({ path: 'insights', message: 'must be an array of strings', value: raw.insights });
+    }
+  }
+
+  if (typeof raw.found_root_cause === 'boolean') output.found_root_cause = raw.found_root_cause;
+  if (typeof raw.no_new_insights === 'boolean') output.no_new_insights = raw.no_new_insights;
+  if (typeof raw.insights_depth === 'string') output.insights_depth = raw.insights_depth;
+
+  return { output, issues, fatal };
+}
+
+export function parseReflection(text: string, knownNames: Set<string>): ValidationReport {
+  if (!text || !text.trim()) {
+    return {
+      output: { new_key_points: [], evaluations: [] },
+      issues: [{ path: '$', message: 'empty response' }],
+      fatal: true,
+    };
+  }
+  return validateReflection(extractJson(text), knownNames);
+}
+
+export function buildRepairPrompt(originalPrompt: string, response: string, issues: ValidationIssue[]): string {
+  const problems = issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n');
+  return `${originalPrompt}\n\n# Your Previous Response\n${response}\n\n# Problems\nThe previous response could not be used:\n${problems}\n\nRespond again with only the corrected JSON object in the Output Format above, with "new_key_points" and "evaluations" arrays.`;
+}